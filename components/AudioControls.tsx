@@ -0,0 +1,42 @@
+import React from 'react';
+import { AudioSettings } from '../services/audio';
+
+interface AudioControlsProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+}
+
+const SLIDERS: { key: 'master' | 'music' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'VOL' },
+  { key: 'music', label: 'MUS' },
+  { key: 'sfx', label: 'SFX' },
+];
+
+// Mute toggle and volume sliders, sitting next to the camera selector.
+export function AudioControls({ settings, onChange }: AudioControlsProps) {
+  return (
+    <div className="audio-controls">
+      <button
+        className="cam-btn"
+        title={settings.muted ? 'Unmute' : 'Mute'}
+        onClick={() => onChange({ ...settings, muted: !settings.muted })}
+      >
+        {settings.muted ? '🔇' : '🔊'}
+      </button>
+      {SLIDERS.map(({ key, label }) => (
+        <label key={key} className="audio-slider">
+          {label}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings[key]}
+            disabled={settings.muted}
+            onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
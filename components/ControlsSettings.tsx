@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ACTIONS, Action, DEFAULT_BINDINGS, KeyBindings, bindKey, keyLabel, unbindKey
+} from '../services/input';
+
+interface ControlsSettingsProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+// Key rebinding panel. "+" waits for the next key press and binds it to that
+// action; clicking a bound key removes it. Gamepads always use the standard layout.
+export function ControlsSettings({ bindings, onChange }: ControlsSettingsProps) {
+  const [listening, setListening] = useState<Action | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    // Capture phase so the key never reaches the game's own handlers
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      onChange(bindKey(bindings, listening, e.code));
+      setListening(null);
+    };
+    window.addEventListener('keydown', capture, true);
+    return () => window.removeEventListener('keydown', capture, true);
+  }, [listening, bindings]);
+
+  return (
+    <div className="controls-settings" onClick={(e) => e.stopPropagation()}>
+      <table>
+        <tbody>
+          {ACTIONS.map(({ action, label }) => (
+            <tr key={action}>
+              <th>{label}</th>
+              <td>
+                {bindings[action].map(code => (
+                  <button
+                    key={code}
+                    className="key-chip"
+                    title="Remove"
+                    onClick={() => onChange(unbindKey(bindings, action, code))}
+                  >{keyLabel(code)}</button>
+                ))}
+                <button
+                  className={listening === action ? 'key-chip key-chip-listening' : 'key-chip'}
+                  onClick={() => setListening(listening === action ? null : action)}
+                >{listening === action ? 'PRESS A KEY…' : '+'}</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="controls-note">Gamepad: D-pad/stick move, A jump, X run, B fire, Y camera, START pause</p>
+      <button className="menu-btn" onClick={() => onChange({ ...DEFAULT_BINDINGS })}>RESET CONTROLS</button>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef } from 'react';
+import { THEMES, Theme } from '../game/constants';
+import { DECOR_TOOLS, ENEMY_TOOLS, EditorTool, TILE_SIZE } from '../game/editor';
+import { getEnemySpec } from '../game/engine';
+import { LevelData } from '../game/levels';
+import {
+  drawBlock, drawBrick, drawCoin, drawDecoration, drawEnemy, drawGoal, drawMushroom, drawQuestionBlock
+} from '../game/render';
+
+const toolKey = (tool: EditorTool) =>
+  typeof tool === 'string' ? tool : 'enemy' in tool ? tool.enemy : tool.decor;
+
+const BASIC_TOOLS: EditorTool[] = ['GROUND', 'BLOCK', 'QUESTION_BLOCK', 'BRICK', 'MUSHROOM', 'COIN', 'START', 'GOAL'];
+const PALETTE: EditorTool[] = [
+  ...BASIC_TOOLS,
+  ...ENEMY_TOOLS.map(enemy => ({ enemy })),
+  ...DECOR_TOOLS.map(decor => ({ decor })),
+];
+
+const SWATCH_SIZE = 44;
+
+// Renders a palette icon with the same drawers the game uses, scaled to fit.
+const drawSwatch = (ctx: CanvasRenderingContext2D, tool: EditorTool, theme: Theme) => {
+  ctx.clearRect(0, 0, SWATCH_SIZE, SWATCH_SIZE);
+  if (tool === 'ERASE') return;
+  ctx.save();
+
+  if (tool === 'GROUND') {
+    ctx.fillStyle = theme.dirt;
+    ctx.fillRect(4, 4, SWATCH_SIZE - 8, SWATCH_SIZE - 8);
+    ctx.fillStyle = theme.ground;
+    ctx.fillRect(4, 4, SWATCH_SIZE - 8, 10);
+  } else if (tool === 'BLOCK') {
+    ctx.scale(0.8, 0.8);
+    drawBlock(ctx, 3, 3, TILE_SIZE, TILE_SIZE, theme.platform);
+  } else if (tool === 'QUESTION_BLOCK') {
+    ctx.scale(0.8, 0.8);
+    drawQuestionBlock(ctx, 3, 3, TILE_SIZE, TILE_SIZE, false);
+  } else if (tool === 'BRICK') {
+    ctx.scale(0.8, 0.8);
+    drawBrick(ctx, 3, 3, TILE_SIZE, TILE_SIZE);
+  } else if (tool === 'MUSHROOM') {
+    drawMushroom(ctx, 7, 10);
+  } else if (tool === 'COIN') {
+    drawCoin(ctx, 10, 10, 24, 0);
+  } else if (tool === 'GOAL') {
+    ctx.scale(0.17, 0.17);
+    drawGoal(ctx, {
+      id: 0, type: 'GOAL', x: 120, y: 0, w: 20, h: 250,
+      vx: 0, vy: 0, frame: 0, active: true, prevX: 120, prevY: 0
+    });
+  } else if (tool === 'START') {
+    ctx.fillStyle = '#D32F2F';
+    ctx.font = 'bold 28px Roboto, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('S', SWATCH_SIZE / 2, 32);
+  } else if ('enemy' in tool) {
+    const spec = getEnemySpec(tool.enemy);
+    const scale = Math.min(1, (SWATCH_SIZE - 4) / Math.max(spec.w, spec.h));
+    ctx.translate(2, 2);
+    ctx.scale(scale, scale);
+    drawEnemy(ctx, {
+      id: 0, type: tool.enemy, x: 0, y: 0, w: spec.w, h: spec.h,
+      vx: 0, vy: 0, frame: 0, active: true, prevX: 0, prevY: 0
+    });
+  } else {
+    ctx.scale(0.25, 0.25);
+    drawDecoration(ctx, 88, 160, tool.decor);
+  }
+
+  ctx.restore();
+};
+
+function Swatch({ tool, theme }: { tool: EditorTool; theme: Theme }) {
+  const ref = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const ctx = ref.current?.getContext('2d');
+    if (ctx) drawSwatch(ctx, tool, theme);
+  }, [tool, theme]);
+  return <canvas ref={ref} width={SWATCH_SIZE} height={SWATCH_SIZE} className="swatch-canvas" />;
+}
+
+interface EditorToolbarProps {
+  level: LevelData;
+  tool: EditorTool;
+  error: string | null;
+  onToolChange: (tool: EditorTool) => void;
+  onLevelChange: (changes: Partial<LevelData>) => void;
+  onLengthChange: (length: number) => void;
+  onNew: () => void;
+  onSave: () => void;
+  onLoad: () => void;
+  onPlay: () => void;
+  onExit: () => void;
+}
+
+export function EditorToolbar({
+  level, tool, error, onToolChange, onLevelChange, onLengthChange,
+  onNew, onSave, onLoad, onPlay, onExit
+}: EditorToolbarProps) {
+  const theme = THEMES.find(t => t.name === level.theme) ?? THEMES[0];
+  const isActive = (candidate: EditorTool) => toolKey(candidate) === toolKey(tool);
+
+  return (
+    <div className="editor-toolbar">
+      <div className="editor-row">
+        <input
+          className="editor-input"
+          value={level.name}
+          maxLength={40}
+          onChange={(e) => onLevelChange({ name: e.target.value })}
+        />
+        <select
+          className="editor-input"
+          value={level.theme}
+          onChange={(e) => onLevelChange({ theme: e.target.value })}
+        >
+          {THEMES.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+        </select>
+        <label className="editor-label">
+          LENGTH
+          {/* Applied on commit: resizing trims items, so half-typed values must not count */}
+          <input
+            key={level.length}
+            className="editor-input editor-length"
+            type="number"
+            min={16}
+            step={1}
+            defaultValue={level.length / TILE_SIZE}
+            onBlur={(e) => onLengthChange(Number(e.target.value) * TILE_SIZE)}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          />
+          TILES
+        </label>
+        <button className="menu-btn" onClick={onNew}>NEW</button>
+        <button className="menu-btn" onClick={onLoad}>LOAD</button>
+        <button className="menu-btn" onClick={onSave}>SAVE</button>
+        <button className="menu-btn editor-play" onClick={onPlay}>▶ PLAY FROM HERE</button>
+        <button className="menu-btn menu-btn-danger" onClick={onExit}>EXIT</button>
+      </div>
+
+      <div className="editor-row editor-palette">
+        {PALETTE.map(candidate => (
+          <button
+            key={toolKey(candidate)}
+            className={`swatch${isActive(candidate) ? ' swatch-active' : ''}`}
+            title={toolKey(candidate)}
+            draggable
+            onDragStart={(e) => {
+              onToolChange(candidate);
+              e.dataTransfer.setData('text/plain', toolKey(candidate));
+            }}
+            onClick={() => onToolChange(candidate)}
+          >
+            <Swatch tool={candidate} theme={theme} />
+          </button>
+        ))}
+        <button
+          className={`swatch swatch-erase${tool === 'ERASE' ? ' swatch-active' : ''}`}
+          title="ERASE"
+          onClick={() => onToolChange('ERASE')}
+        >✖</button>
+      </div>
+
+      <p className="editor-hint">
+        Click or drag from the palette to place • drag items to move • right-click or ✖ to delete • ←/→ or scroll to pan
+      </p>
+      {error && <p className="error-text">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { LeaderboardEntry, MAX_NAME_LENGTH } from '../services/leaderboard';
+
+interface LeaderboardProps {
+  entries: LeaderboardEntry[];
+  highlight?: LeaderboardEntry | null;
+  onClear?: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+export function Leaderboard({ entries, highlight, onClear }: LeaderboardProps) {
+  if (entries.length === 0) {
+    return <p className="leaderboard-empty">No scores yet. Go set one!</p>;
+  }
+
+  return (
+    <div className="leaderboard" onClick={(e) => e.stopPropagation()}>
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>NAME</th>
+            <th>SCORE</th>
+            <th>DIST</th>
+            <th>STOMPS</th>
+            <th>WORLD</th>
+            <th>CAMERA</th>
+            <th>DATE</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, i) => (
+            <tr key={`${entry.date}-${i}`} className={entry === highlight ? 'leaderboard-new' : undefined}>
+              <td>{i + 1}</td>
+              <td>{entry.name}</td>
+              <td>{entry.score}</td>
+              <td>{entry.distance}m</td>
+              <td>{entry.enemiesStomped}</td>
+              <td>{entry.theme}</td>
+              <td>{entry.camera}</td>
+              <td>{formatDate(entry.date)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {onClear && (
+        <button
+          className="menu-btn menu-btn-danger"
+          onClick={() => { if (window.confirm('Clear all high scores?')) onClear(); }}
+        >CLEAR SCORES</button>
+      )}
+    </div>
+  );
+}
+
+interface NameEntryProps {
+  initialName: string;
+  onSubmit: (name: string) => void;
+}
+
+export function NameEntry({ initialName, onSubmit }: NameEntryProps) {
+  const [name, setName] = useState(initialName);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(name.trim() || 'PLAYER');
+  };
+
+  return (
+    <form className="name-entry" onSubmit={submit} onClick={(e) => e.stopPropagation()}>
+      <p className="name-entry-title">NEW HIGH SCORE!</p>
+      <input
+        autoFocus
+        value={name}
+        maxLength={MAX_NAME_LENGTH}
+        placeholder="YOUR NAME"
+        onChange={(e) => setName(e.target.value.toUpperCase())}
+      />
+      <button className="menu-btn" type="submit">SAVE</button>
+    </form>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { LevelData } from '../game/levels';
+
+interface LevelSelectProps {
+  levels: LevelData[];
+  selected: LevelData | null;
+  onSelect: (level: LevelData | null) => void;
+}
+
+// Mode picker on the START overlay; `null` is endless mode.
+export function LevelSelect({ levels, selected, onSelect }: LevelSelectProps) {
+  const option = (level: LevelData | null, label: string) => (
+    <button
+      key={label}
+      className={`menu-btn level-btn${selected === level ? ' level-btn-active' : ''}`}
+      onClick={(e) => { e.stopPropagation(); onSelect(level); }}
+    >{label}</button>
+  );
+
+  return (
+    <div className="level-select">
+      <p className="level-select-title">LEVEL SELECT</p>
+      <div className="overlay-actions">
+        {option(null, 'ENDLESS')}
+        {levels.map(level => option(level, level.name))}
+      </div>
+    </div>
+  );
+}
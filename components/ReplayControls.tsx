@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  frames: number;
+  speed: number;
+  paused: boolean;
+  scrubberRef: React.RefObject<HTMLInputElement>;
+  onSeek: (frame: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onTogglePause: () => void;
+  onExport: () => void;
+  onCopyCode: () => Promise<void>;
+  onExit: () => void;
+}
+
+// Playback bar shown over the canvas while a replay runs. The scrubber is
+// uncontrolled: the game loop moves it through `scrubberRef` every frame so
+// playback doesn't re-render the whole App at 60 Hz.
+export function ReplayControls({
+  frames, speed, paused, scrubberRef,
+  onSeek, onSpeedChange, onTogglePause, onExport, onCopyCode, onExit
+}: ReplayControlsProps) {
+  const [copyLabel, setCopyLabel] = useState('COPY CODE');
+
+  // The clipboard can refuse (no permission, insecure origin); say so on the button
+  const copyCode = () => {
+    onCopyCode().then(() => setCopyLabel('COPIED'), () => setCopyLabel('COPY FAILED'));
+  };
+
+  return (
+    <div className="replay-controls">
+      <span className="replay-badge">REPLAY</span>
+      <button className="menu-btn" onClick={onTogglePause}>{paused ? '▶' : '❚❚'}</button>
+      <input
+        ref={scrubberRef}
+        className="replay-scrubber"
+        type="range"
+        min={0}
+        max={frames}
+        defaultValue={0}
+        onChange={(e) => onSeek(Number(e.target.value))}
+      />
+      <select
+        className="replay-speed"
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+      >
+        {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+      <button className="menu-btn" onClick={onExport}>SAVE</button>
+      <button className="menu-btn" onClick={copyCode}>{copyLabel}</button>
+      <button className="menu-btn" onClick={onExit}>EXIT</button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Entity } from './types';
+
+// --- Broadphase ---
+// The world is a long horizontal strip, so entities are bucketed into
+// fixed-width columns by their left edge. A query only visits the columns
+// its box could reach, then the caller does the exact overlap test. The grid
+// is rebuilt at the start of every step; entities spawned mid-step are
+// inserted as they appear, and everything else can only have moved a little
+// since, which the query margin absorbs.
+
+const CELL_WIDTH = 128;
+// Widest entity (moving platforms are 100px) plus the margin
+const MAX_ENTITY_WIDTH = 128;
+// Furthest anything moves in one step, with room to spare
+const MOVE_MARGIN = 32;
+
+export interface Broadphase {
+  cells: Map<number, Entity[]>;
+}
+
+export const createBroadphase = (): Broadphase => ({ cells: new Map() });
+
+const cellOf = (x: number) => Math.floor(x / CELL_WIDTH);
+
+export const insertEntity = (grid: Broadphase, ent: Entity) => {
+  const cell = cellOf(ent.x);
+  let bucket = grid.cells.get(cell);
+  if (!bucket) {
+    bucket = [];
+    grid.cells.set(cell, bucket);
+  }
+  bucket.push(ent);
+};
+
+// Re-buckets the active entities, reusing the column arrays.
+export const rebuildBroadphase = (grid: Broadphase, entities: Entity[]) => {
+  grid.cells.forEach(bucket => { bucket.length = 0; });
+  entities.forEach(ent => {
+    if (ent.active) insertEntity(grid, ent);
+  });
+  grid.cells.forEach((bucket, cell) => {
+    if (bucket.length === 0) grid.cells.delete(cell);
+  });
+};
+
+// First active entity near `box` that passes `test`. Visiting stops as soon as
+// `test` returns true, so a test that always returns false visits them all.
+export const findNear = (
+  grid: Broadphase, box: { x: number; w: number }, test: (ent: Entity) => boolean
+): Entity | undefined => {
+  const first = cellOf(box.x - MAX_ENTITY_WIDTH - MOVE_MARGIN);
+  const last = cellOf(box.x + box.w + MOVE_MARGIN);
+  for (let cell = first; cell <= last; cell++) {
+    const bucket = grid.cells.get(cell);
+    if (!bucket) continue;
+    for (let i = 0; i < bucket.length; i++) {
+      if (bucket[i].active && test(bucket[i])) return bucket[i];
+    }
+  }
+  return undefined;
+};
+
+export const forEachNear = (grid: Broadphase, box: { x: number; w: number }, visit: (ent: Entity) => void) => {
+  findNear(grid, box, ent => {
+    visit(ent);
+    return false;
+  });
+};
@@ -0,0 +1,195 @@
+// --- Game Constants ---
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 450;
+export const GROUND_HEIGHT = 60;
+export const GROUND_Y = CANVAS_HEIGHT - GROUND_HEIGHT;
+
+// Simulation runs at a fixed rate regardless of display refresh rate
+export const STEP_MS = 1000 / 60;
+export const MAX_STEPS_PER_FRAME = 5;
+
+// Physics (per fixed step; speeds in px per step, timers in steps)
+export const PHYSICS = {
+  gravity: 0.6,
+  friction: 0.82,
+  acceleration: 0.5,
+  maxSpeed: 8,
+  // Holding run
+  runAcceleration: 0.7,
+  runMaxSpeed: 11,
+  jumpForce: -15,
+  // Letting go of jump while still rising caps the upward speed here
+  jumpCutSpeed: -5,
+  bounceForce: -8,
+  // Steps after leaving a ledge that a jump still works
+  coyoteFrames: 6,
+  // Steps a jump press is remembered before landing
+  jumpBufferFrames: 6
+};
+
+// Dimensions
+export const PLAYER_W_SMALL = 30;
+export const PLAYER_H_SMALL = 40;
+export const PLAYER_W_BIG = 40;
+export const PLAYER_H_BIG = 70;
+
+// Generation
+export const THEME_CHANGE_DISTANCE = 3000;
+export const CLOUD_COUNT = 8;
+export const MIN_GROUND_BETWEEN_GAPS = 400;
+
+// Weather
+export const WEATHER_STRETCH = 1500;
+export const WEATHER_CHANCE = 0.4;
+// Steps between raindrops splashing on the ground
+export const RAIN_SPLASH_INTERVAL = 4;
+
+// Blocks
+export const BLOCK_SIZE = 50;
+export const BUMP_FRAMES = 10;
+
+// Enemy AI
+export const THWOMP_FALL_SPEED = 14;
+export const THWOMP_RISE_SPEED = 1.5;
+export const GHOST_SPEED = 1.6;
+export const GHOST_SIGHT = 500;
+export const SHELL_W = 36;
+export const SHELL_H = 28;
+export const SHELL_SPEED = 10;
+export const SHELL_KICK_GRACE = 15;
+
+// Scoring
+export const COIN_SIZE = 20;
+export const COIN_SCORE = 200;
+export const COINS_PER_LIFE = 100;
+// Consecutive stomps (or shell hits) climb this ladder, then award lives
+export const COMBO_SCORES = [100, 200, 400, 800, 1000, 2000, 4000, 8000];
+export const POPUP_FRAMES = 45;
+
+// Lives
+export const START_LIVES = 3;
+export const RESPAWN_INVULNERABLE_FRAMES = 120;
+export const CHECKPOINT_W = 30;
+export const CHECKPOINT_H = 110;
+
+// Power-ups
+export const STAR_FRAMES = 600;
+export const KNOCKOUT_SCORE = 200;
+export const FIREBALL_SIZE = 12;
+export const FIREBALL_SPEED = 7;
+export const FIREBALL_BOUNCE = -6;
+export const FIREBALL_COOLDOWN = 12;
+export const MAX_FIREBALLS = 2;
+export const PICKUP_SIZE = 30;
+
+// Moving Platforms
+export const PLATFORM_W = 100;
+export const PLATFORM_H = 20;
+
+// --- Camera Modes ---
+// Fraction of the remaining distance the projection eases each frame when
+// switching modes
+export const CAMERA_TWEEN = 0.15;
+// Field of view, pitch and yaw in degrees, see game/projection.ts; an fov of
+// 0 is orthographic. Yaw stays shallow enough that the far side of the view
+// never reaches past the world the engine keeps around the screen.
+export const CAMERA_MODES = [
+  { name: '2D Flat', fov: 0, pitch: 0, yaw: 0 },
+  { name: 'Classic Right', fov: 40, pitch: 10, yaw: 8 },
+  { name: 'Classic Left', fov: 40, pitch: 10, yaw: -8 },
+  { name: 'Isometric Right', fov: 0, pitch: 30, yaw: 25 },
+  { name: 'Isometric Left', fov: 0, pitch: 30, yaw: -25 },
+  { name: 'Top Down', fov: 40, pitch: 45, yaw: 0 },
+  { name: 'Deep Right', fov: 60, pitch: 15, yaw: 15 },
+  { name: 'Deep Left', fov: 60, pitch: 15, yaw: -15 },
+  { name: 'Shallow Right', fov: 30, pitch: 5, yaw: 6 },
+  { name: 'Shallow Left', fov: 30, pitch: 5, yaw: -6 },
+  { name: 'Extreme Right', fov: 75, pitch: 8, yaw: 10 },
+  { name: 'Extreme Left', fov: 75, pitch: 8, yaw: -10 },
+  { name: 'Tall Perspective', fov: 50, pitch: 35, yaw: 4 },
+  { name: 'Wide Perspective', fov: 80, pitch: 5, yaw: 8 },
+];
+
+// --- Themes Configuration ---
+// `parallax` lists background layers far to near. `drawer` names one of the
+// procedural drawers in render.ts, `factor` is how fast the layer scrolls with
+// the camera (0 = fixed to the screen, 1 = world speed) and `y` is the screen
+// line it stands on, or hangs from. `effects`: `darkness` is how dark the
+// screen gets outside light sources, `weather` is RAIN, SANDSTORM or NONE,
+// `heatHaze` shimmers the air above the ground and `dayNight` tints the sky
+// through a day over distance.
+export const THEMES = [
+  {
+    name: 'OVERWORLD',
+    bg: ['#5c94fc', '#95b8fc'],
+    ground: '#74bf2e',
+    dirt: '#835f30',
+    enemies: ['GOOMBA', 'TURTLE'],
+    decor: 'HILL',
+    platform: '#B8860B',
+    parallax: [
+      { drawer: 'MOUNTAINS', factor: 0.1, y: GROUND_Y, color: '#7d9fd6' },
+      { drawer: 'HILLS', factor: 0.3, y: GROUND_Y, color: '#4f9a45' },
+      { drawer: 'BUSHES', factor: 0.6, y: GROUND_Y, color: '#2f7d32' },
+    ],
+    effects: { darkness: 0, weather: 'RAIN', heatHaze: false, dayNight: true },
+    // Pits: chance per generation step, width range; lifts: chance of a
+    // vertical moving platform on solid ground
+    terrain: { gapChance: 0.05, gapWidth: [100, 180], liftChance: 0.02 },
+    // Odds that a question block holds each item instead of a coin
+    drops: { MUSHROOM: 0.25, FIRE_FLOWER: 0.08, STAR: 0.03, ONE_UP: 0.02 }
+  },
+  {
+    name: 'UNDERGROUND',
+    bg: ['#0d0e15', '#242636'],
+    ground: '#005f8c',
+    dirt: '#00334d',
+    enemies: ['BEETLE', 'GOOMBA_BLUE'],
+    decor: 'CRYSTAL',
+    platform: '#007AA3',
+    parallax: [
+      { drawer: 'STALACTITES', factor: 0.15, y: 0, color: '#1a1d2b' },
+      { drawer: 'CRYSTALS', factor: 0.35, y: GROUND_Y, color: 'rgba(100, 200, 255, 0.25)' },
+      { drawer: 'ROCKS', factor: 0.6, y: GROUND_Y, color: '#15171f' },
+    ],
+    effects: { darkness: 0.8, weather: 'NONE', heatHaze: false, dayNight: false },
+    terrain: { gapChance: 0.08, gapWidth: [120, 260], liftChance: 0.04 },
+    drops: { MUSHROOM: 0.2, FIRE_FLOWER: 0.1, STAR: 0.04, ONE_UP: 0.04 }
+  },
+  {
+    name: 'DESERT',
+    bg: ['#ffcc33', '#ff9933'],
+    ground: '#e6c288',
+    dirt: '#bf9b30',
+    enemies: ['CACTUS_MOVING', 'TURTLE_RED'],
+    decor: 'PYRAMID',
+    platform: '#CD853F',
+    parallax: [
+      { drawer: 'DUNES', factor: 0.1, y: GROUND_Y, color: '#f0b050' },
+      { drawer: 'PYRAMIDS', factor: 0.3, y: GROUND_Y, color: '#d9a05b' },
+      { drawer: 'CACTI', factor: 0.6, y: GROUND_Y, color: '#5f8f3a' },
+    ],
+    effects: { darkness: 0, weather: 'SANDSTORM', heatHaze: true, dayNight: true },
+    terrain: { gapChance: 0.04, gapWidth: [100, 160], liftChance: 0.02 },
+    drops: { MUSHROOM: 0.2, FIRE_FLOWER: 0.12, STAR: 0.05, ONE_UP: 0.02 }
+  },
+  {
+    name: 'CASTLE',
+    bg: ['#2b0808', '#4a1010'],
+    ground: '#666666',
+    dirt: '#333333',
+    enemies: ['GHOST', 'THWOMP'],
+    decor: 'CHAIN',
+    platform: '#808080',
+    parallax: [
+      { drawer: 'TOWERS', factor: 0.1, y: GROUND_Y, color: '#3a0d0d' },
+      { drawer: 'PILLARS', factor: 0.3, y: GROUND_Y, color: '#551616' },
+      { drawer: 'TORCHES', factor: 0.6, y: GROUND_Y, color: '#ffb13b' },
+    ],
+    effects: { darkness: 0.7, weather: 'NONE', heatHaze: false, dayNight: false },
+    terrain: { gapChance: 0.1, gapWidth: [150, 300], liftChance: 0.05 },
+    drops: { MUSHROOM: 0.3, FIRE_FLOWER: 0.15, STAR: 0.02, ONE_UP: 0.01 }
+  }
+];
+
+export type Theme = typeof THEMES[number];
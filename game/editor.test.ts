@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { GROUND_Y } from './constants';
+import {
+  TILE_SIZE, createBlankLevel, hasGroundTile, hitTest, moveItem, placeItem, removeItem, resizeLevel, setGroundTile
+} from './editor';
+
+describe('level editor model', () => {
+  it('snaps placed blocks to the grid and refuses to stack two in one cell', () => {
+    const level = placeItem(createBlankLevel(), 'BRICK', 317, GROUND_Y - 80);
+    expect(level.blocks).toEqual([{ x: 300, y: GROUND_Y - 2 * TILE_SIZE, type: 'BRICK' }]);
+    expect(placeItem(level, 'BLOCK', 340, GROUND_Y - 60)).toBe(level);
+  });
+
+  it('stands walking enemies on the ground wherever they are dropped', () => {
+    const level = placeItem(createBlankLevel(), { enemy: 'GOOMBA' }, 510, 40);
+    expect(level.enemies[0]).toMatchObject({ type: 'GOOMBA', y: GROUND_Y - 40 });
+  });
+
+  it('finds, moves and removes an item without touching the original', () => {
+    const original = placeItem(createBlankLevel(), 'COIN', 400, GROUND_Y - 120);
+    const ref = hitTest(original, original.coins[0].x + 5, original.coins[0].y + 5);
+    expect(ref).toEqual({ kind: 'coins', index: 0 });
+
+    const moved = moveItem(original, ref, 600, GROUND_Y - 170);
+    expect(moved.coins[0].x).toBeGreaterThanOrEqual(600);
+    expect(moved.coins[0].y).toBeLessThan(original.coins[0].y);
+    expect(original.coins[0].x).toBeLessThan(600);
+
+    expect(removeItem(moved, ref).coins).toEqual([]);
+    expect(moved.coins).toHaveLength(1);
+  });
+
+  it('only moves the goal and start marker', () => {
+    const level = createBlankLevel();
+    expect(removeItem(level, { kind: 'goal', index: 0 })).toBe(level);
+    expect(moveItem(level, { kind: 'start', index: 0 }, 260, GROUND_Y).start).toEqual({ x: 250 });
+  });
+
+  it('digs pits and fills them back in as merged segments', () => {
+    const dug = setGroundTile(createBlankLevel(), 1010, false);
+    expect(hasGroundTile(dug, 1010)).toBe(false);
+    expect(dug.ground).toEqual([{ x: 0, w: 1000 }, { x: 1050, w: 1950 }]);
+    expect(setGroundTile(dug, 1010, true).ground).toEqual([{ x: 0, w: 3000 }]);
+  });
+
+  it('trims what falls off the end when shortened', () => {
+    const level = placeItem(createBlankLevel(), 'BLOCK', 2500, GROUND_Y - 100);
+    const short = resizeLevel(level, 2000);
+    expect(short.length).toBe(2000);
+    expect(short.blocks).toEqual([]);
+    expect(short.goal.x).toBeLessThan(2000);
+    expect(short.ground).toEqual([{ x: 0, w: 2000 }]);
+  });
+});
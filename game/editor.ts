@@ -0,0 +1,232 @@
+import { CANVAS_WIDTH, COIN_SIZE, GROUND_Y, THEMES } from './constants';
+import { getEnemySpec } from './engine';
+import { GOAL_HEIGHT, LevelData } from './levels';
+import { GroundSegment } from './types';
+
+// --- Level Editor Model ---
+// Pure edits on LevelData. Every function returns a new level so the editor
+// can keep it as React state; nothing here touches the canvas.
+
+export const TILE_SIZE = 50;
+
+export const ENEMY_TOOLS = [...new Set(THEMES.flatMap(t => t.enemies))];
+export const DECOR_TOOLS = THEMES.map(t => t.decor);
+const FLOATING_ENEMIES = ['GHOST', 'THWOMP'];
+const BLOCK_TOOLS: EditorTool[] = ['BLOCK', 'QUESTION_BLOCK', 'BRICK'];
+
+export type EditorTool =
+  | 'BLOCK' | 'QUESTION_BLOCK' | 'BRICK' | 'MUSHROOM' | 'COIN' | 'GROUND' | 'GOAL' | 'START' | 'ERASE'
+  | { enemy: string }
+  | { decor: string };
+
+export type ItemKind = 'blocks' | 'mushrooms' | 'coins' | 'enemies' | 'decorations';
+
+export interface ItemRef {
+  kind: ItemKind | 'goal' | 'start';
+  index: number;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const createBlankLevel = (theme = THEMES[0].name): LevelData => ({
+  name: 'My Level',
+  theme,
+  length: 3000,
+  start: { x: 100 },
+  ground: [{ x: 0, w: 3000 }],
+  blocks: [],
+  enemies: [],
+  mushrooms: [],
+  coins: [],
+  decorations: [],
+  goal: { x: 2850 }
+});
+
+// Grid cells are counted up from the ground so the first row above it is a
+// full tile that blocks sit on.
+export const snapX = (x: number) => Math.floor(x / TILE_SIZE) * TILE_SIZE;
+export const snapY = (y: number) => GROUND_Y - Math.ceil((GROUND_Y - y) / TILE_SIZE) * TILE_SIZE;
+
+export const itemBox = (level: LevelData, ref: ItemRef): Box => {
+  switch (ref.kind) {
+    case 'blocks': {
+      const b = level.blocks[ref.index];
+      return { x: b.x, y: b.y, w: TILE_SIZE, h: TILE_SIZE };
+    }
+    case 'mushrooms': {
+      const m = level.mushrooms[ref.index];
+      return { x: m.x, y: m.y, w: 30, h: 30 };
+    }
+    case 'coins': {
+      const c = level.coins[ref.index];
+      return { x: c.x, y: c.y, w: COIN_SIZE, h: COIN_SIZE };
+    }
+    case 'enemies': {
+      const e = level.enemies[ref.index];
+      const spec = getEnemySpec(e.type);
+      return { x: e.x, y: e.y ?? spec.y, w: spec.w, h: spec.h };
+    }
+    case 'decorations': {
+      const d = level.decorations[ref.index];
+      return { x: d.x, y: GROUND_Y - 40, w: 40, h: 40 };
+    }
+    case 'goal':
+      return { x: level.goal.x - 15, y: GROUND_Y - GOAL_HEIGHT, w: 50, h: GOAL_HEIGHT };
+    case 'start':
+      return { x: level.start?.x ?? 100, y: GROUND_Y - 40, w: 30, h: 40 };
+  }
+};
+
+const contains = (box: Box, x: number, y: number) =>
+  x >= box.x && x < box.x + box.w && y >= box.y && y < box.y + box.h;
+
+// Topmost item under a world point, checked in reverse draw order.
+export const hitTest = (level: LevelData, x: number, y: number): ItemRef | null => {
+  const candidates: ItemRef[] = [
+    { kind: 'start', index: 0 },
+    ...level.enemies.map((_, index) => ({ kind: 'enemies' as const, index })),
+    ...level.mushrooms.map((_, index) => ({ kind: 'mushrooms' as const, index })),
+    ...(level.coins ?? []).map((_, index) => ({ kind: 'coins' as const, index })),
+    ...level.blocks.map((_, index) => ({ kind: 'blocks' as const, index })),
+    { kind: 'goal', index: 0 },
+    ...level.decorations.map((_, index) => ({ kind: 'decorations' as const, index })),
+  ];
+  for (let i = 0; i < candidates.length; i++) {
+    if (contains(itemBox(level, candidates[i]), x, y)) return candidates[i];
+  }
+  return null;
+};
+
+// Snapped placement of a tool's item at a world point.
+const placement = (tool: EditorTool, x: number, y: number) => {
+  const cellX = snapX(x);
+  const cellY = snapY(y);
+  if (typeof tool === 'object' && 'enemy' in tool) {
+    const spec = getEnemySpec(tool.enemy);
+    // Ghosts and Thwomps hang where they are put; everything else stands on the ground row
+    const floats = FLOATING_ENEMIES.includes(tool.enemy);
+    const enemyY = floats ? Math.min(cellY + TILE_SIZE, GROUND_Y) - spec.h : GROUND_Y - spec.h;
+    return { x: cellX + (TILE_SIZE - Math.min(spec.w, TILE_SIZE)) / 2, y: enemyY };
+  }
+  if (tool === 'MUSHROOM') return { x: cellX + 10, y: cellY + TILE_SIZE - 30 };
+  if (tool === 'COIN') return { x: cellX + (TILE_SIZE - COIN_SIZE) / 2, y: cellY + (TILE_SIZE - COIN_SIZE) / 2 };
+  if (tool === 'GOAL') return { x: cellX + 15, y: GROUND_Y - GOAL_HEIGHT };
+  return { x: cellX, y: cellY };
+};
+
+export const placeItem = (level: LevelData, tool: EditorTool, x: number, y: number): LevelData => {
+  const pos = placement(tool, x, y);
+  if (pos.x < 0 || pos.x >= level.length) return level;
+
+  if (BLOCK_TOOLS.includes(tool)) {
+    if (pos.y >= GROUND_Y || level.blocks.some(b => b.x === pos.x && b.y === pos.y)) return level;
+    // Plain blocks stay { x, y } in the JSON
+    const block = tool === 'BLOCK' ? pos : { ...pos, type: tool as string };
+    return { ...level, blocks: [...level.blocks, block] };
+  }
+  if (tool === 'MUSHROOM') return { ...level, mushrooms: [...level.mushrooms, pos] };
+  if (tool === 'COIN') {
+    if (pos.y >= GROUND_Y) return level;
+    return { ...level, coins: [...(level.coins ?? []), pos] };
+  }
+  if (tool === 'GOAL') return { ...level, goal: { x: pos.x } };
+  if (tool === 'START') return { ...level, start: { x: pos.x } };
+  if (typeof tool === 'object' && 'enemy' in tool) {
+    return { ...level, enemies: [...level.enemies, { type: tool.enemy, x: pos.x, y: pos.y }] };
+  }
+  if (typeof tool === 'object' && 'decor' in tool) {
+    return { ...level, decorations: [...level.decorations, { x: pos.x, type: tool.decor }] };
+  }
+  return level;
+};
+
+// Toolbox equivalent of an existing item, used to re-place it when dragged.
+const toolFor = (level: LevelData, ref: ItemRef): EditorTool => {
+  switch (ref.kind) {
+    case 'blocks': return (level.blocks[ref.index].type ?? 'BLOCK') as EditorTool;
+    case 'mushrooms': return 'MUSHROOM';
+    case 'coins': return 'COIN';
+    case 'enemies': return { enemy: level.enemies[ref.index].type };
+    case 'decorations': return { decor: level.decorations[ref.index].type };
+    case 'goal': return 'GOAL';
+    case 'start': return 'START';
+  }
+};
+
+const replaceAt = <T>(items: T[] | undefined, index: number, update: (item: T) => T): T[] =>
+  (items ?? []).map((item, i) => (i === index ? update(item) : item));
+
+export const moveItem = (level: LevelData, ref: ItemRef, x: number, y: number): LevelData => {
+  if (ref.kind === 'goal' || ref.kind === 'start') return placeItem(level, toolFor(level, ref), x, y);
+
+  const pos = placement(toolFor(level, ref), x, y);
+  if (pos.x < 0 || pos.x >= level.length) return level;
+  if ((ref.kind === 'blocks' || ref.kind === 'coins') && pos.y >= GROUND_Y) return level;
+  const moved = <T extends { x: number; y?: number }>(item: T): T => ({ ...item, x: pos.x, y: pos.y });
+  switch (ref.kind) {
+    case 'blocks': return { ...level, blocks: replaceAt(level.blocks, ref.index, moved) };
+    case 'mushrooms': return { ...level, mushrooms: replaceAt(level.mushrooms, ref.index, moved) };
+    case 'coins': return { ...level, coins: replaceAt(level.coins, ref.index, moved) };
+    case 'enemies': return { ...level, enemies: replaceAt(level.enemies, ref.index, moved) };
+    case 'decorations': return { ...level, decorations: replaceAt(level.decorations, ref.index, d => ({ ...d, x: pos.x })) };
+  }
+};
+
+// The goal and start marker are required, so they can only be moved.
+export const removeItem = (level: LevelData, ref: ItemRef): LevelData => {
+  if (ref.kind === 'goal' || ref.kind === 'start') return level;
+  return { ...level, [ref.kind]: (level[ref.kind] ?? []).filter((_: unknown, i: number) => i !== ref.index) };
+};
+
+// --- Ground ---
+// Ground is edited as 50px tiles and stored back as merged segments.
+
+export const hasGroundTile = (level: LevelData, x: number) => {
+  const cellX = snapX(x);
+  return level.ground.some(seg => cellX + TILE_SIZE / 2 > seg.x && cellX + TILE_SIZE / 2 < seg.x + seg.w);
+};
+
+export const setGroundTile = (level: LevelData, x: number, solid: boolean): LevelData => {
+  const cellX = snapX(x);
+  if (cellX < 0 || cellX >= level.length || hasGroundTile(level, x) === solid) return level;
+
+  const tiles = new Set<number>();
+  level.ground.forEach(seg => {
+    for (let tx = snapX(seg.x); tx < seg.x + seg.w; tx += TILE_SIZE) tiles.add(tx);
+  });
+  if (solid) tiles.add(cellX); else tiles.delete(cellX);
+
+  const ground: GroundSegment[] = [];
+  [...tiles].sort((a, b) => a - b).forEach(tx => {
+    const last = ground[ground.length - 1];
+    if (last && last.x + last.w === tx) last.w += TILE_SIZE;
+    else ground.push({ x: tx, w: TILE_SIZE });
+  });
+  return { ...level, ground };
+};
+
+// Changing the length trims anything that would fall off the end.
+export const resizeLevel = (level: LevelData, length: number): LevelData => {
+  const clamped = Math.max(CANVAS_WIDTH, snapX(length));
+  return {
+    ...level,
+    length: clamped,
+    ground: level.ground
+      .filter(seg => seg.x < clamped)
+      .map(seg => ({ x: seg.x, w: Math.min(seg.w, clamped - seg.x) })),
+    blocks: level.blocks.filter(b => b.x < clamped),
+    platforms: level.platforms?.filter(pl => pl.x < clamped),
+    enemies: level.enemies.filter(e => e.x < clamped),
+    mushrooms: level.mushrooms.filter(m => m.x < clamped),
+    coins: level.coins?.filter(c => c.x < clamped),
+    decorations: level.decorations.filter(d => d.x < clamped),
+    checkpoints: level.checkpoints?.filter(c => c.x < clamped),
+    goal: { x: Math.min(level.goal.x, clamped - TILE_SIZE + 15) },
+    start: level.start && { x: Math.min(level.start.x, clamped - TILE_SIZE) }
+  };
+};
@@ -0,0 +1,333 @@
+import { describe, expect, it } from 'vitest';
+import { BLOCK_SIZE, COINS_PER_LIFE, GROUND_Y, PLAYER_H_BIG, PLAYER_W_BIG, START_LIVES, THEME_CHANGE_DISTANCE, WEATHER_STRETCH } from './constants';
+import { createBlankLevel } from './editor';
+import { addBlock, addEntity, createGameState, spawnEnemy, spawnParticles, step } from './engine';
+import { loadLevel } from './levels';
+import { FrameInput, GameEvent, GameState } from './types';
+
+const SEEDS = [1, 42, 1234, 0xC0FFEE, 0xDEADBEEF];
+
+const IDLE: FrameInput = { left: false, right: false, jump: false, jumpHeld: false, run: false, fire: false };
+
+// Runs right and hops on a fixed rhythm; `period` varies the route so two
+// runs meet different enemies and blocks.
+const runner = (period: number) => (frame: number): FrameInput => ({
+  ...IDLE,
+  right: true,
+  run: true,
+  jump: frame % period === 0,
+  jumpHeld: frame % period < period / 2,
+  fire: frame % 50 === 0
+});
+
+const play = (state: GameState, frames: number, inputAt: (frame: number) => FrameInput, everyStep?: () => void) => {
+  for (let frame = 0; frame < frames; frame++) {
+    step(state, inputAt(frame));
+    everyStep?.();
+  }
+  return state;
+};
+
+// The world behind the camera is dropped as a run goes on, so the course is
+// noted step by step as it is generated.
+const recordCourse = (state: GameState) => {
+  const decorations = new Map<number, string>();
+  const gapEnds = new Set<number>();
+  return {
+    state,
+    note: () => {
+      state.decorations.forEach(d => decorations.set(d.x, d.type));
+      gapEnds.add(state.lastGapEndX);
+    },
+    // Everything generated before `limit`
+    upTo: (limit: number) => ({
+      decorations: [...decorations].filter(([x]) => x < limit),
+      gapEnds: [...gapEnds].filter(x => x < limit),
+      weatherSpells: state.weatherSpells.slice(0, Math.floor(limit / WEATHER_STRETCH))
+    })
+  };
+};
+
+type Course = ReturnType<typeof recordCourse>;
+
+const sharedCourse = (a: Course, b: Course) => {
+  const limit = Math.min(a.state.lastGeneratedX, b.state.lastGeneratedX);
+  return [a.upTo(limit), b.upTo(limit)];
+};
+
+describe('determinism', () => {
+  it.each(SEEDS)('replays the same seed and inputs to the same state (seed %i)', seed => {
+    const first = play(createGameState(seed), 1500, runner(37));
+    const second = play(createGameState(seed), 1500, runner(37));
+    expect(first.distance).toBeGreaterThan(0);
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+  });
+
+  it.each(SEEDS)('lays out the same course whatever the player does (seed %i)', seed => {
+    const a = recordCourse(createGameState(seed));
+    const b = recordCourse(createGameState(seed));
+    play(a.state, 1500, runner(37), a.note);
+    play(b.state, 1500, runner(23), b.note);
+    const [first, second] = sharedCourse(a, b);
+    expect(first.decorations.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it.each(SEEDS)('lays out the same course after the player idles (seed %i)', seed => {
+    const eager = recordCourse(createGameState(seed));
+    const idler = recordCourse(createGameState(seed));
+    play(eager.state, 1500, runner(37), eager.note);
+    play(idler.state, 600, () => IDLE, idler.note);
+    play(idler.state, 1500, runner(37), idler.note);
+    const [first, second] = sharedCourse(eager, idler);
+    expect(second).toEqual(first);
+  });
+
+  it.each(SEEDS)('does not let particles change the course (seed %i)', seed => {
+    const plain = recordCourse(createGameState(seed));
+    const sparkly = recordCourse(createGameState(seed));
+    const { player } = sparkly.state;
+    play(plain.state, 1500, runner(37), plain.note);
+    play(sparkly.state, 1500, runner(37), () => {
+      spawnParticles(sparkly.state, player.x, player.y, '#FFF', 3);
+      sparkly.note();
+    });
+    const [first, second] = sharedCourse(plain, sparkly);
+    expect(second).toEqual(first);
+  });
+});
+
+// --- Engine specs ---
+// Each spec sets a scene up on a flat, empty level, so nothing generated gets
+// in the way, and drives step() directly.
+
+const arena = () => {
+  const state = createGameState(1);
+  loadLevel(state, createBlankLevel());
+  return state;
+};
+
+// Steps `frames` times with the same input and returns every event raised.
+const hold = (state: GameState, frames: number, input: Partial<FrameInput> = {}) => {
+  const events: GameEvent[] = [];
+  for (let i = 0; i < frames && !state.isOver; i++) events.push(...step(state, { ...IDLE, ...input }));
+  return events;
+};
+
+const typesOf = (events: GameEvent[]) => events.map(event => event.type);
+
+const makeBig = (state: GameState) => {
+  const p = state.player;
+  p.power = 'BIG';
+  p.y += p.h - PLAYER_H_BIG;
+  p.w = PLAYER_W_BIG;
+  p.h = PLAYER_H_BIG;
+};
+
+// Puts the player just above `ent`, falling onto it.
+const dropOnto = (state: GameState, ent: { x: number; y: number }) => {
+  const p = state.player;
+  p.x = p.prevX = ent.x;
+  p.y = p.prevY = ent.y - p.h - 1;
+  p.vy = 4;
+  p.isGrounded = false;
+};
+
+const enemiesOf = (state: GameState, type: string) => state.entities.filter(ent => ent.active && ent.type === type);
+
+describe('stomping', () => {
+  it('squashes a GOOMBA landed on from above and bounces the player', () => {
+    const state = arena();
+    dropOnto(state, spawnEnemy(state, 'GOOMBA', 300, undefined, 0));
+    const events = hold(state, 1);
+    expect(typesOf(events)).toContain('STOMP');
+    expect(enemiesOf(state, 'GOOMBA')).toHaveLength(0);
+    expect(state.enemiesStomped).toBe(1);
+    expect(state.player.vy).toBeLessThan(0);
+  });
+
+  it('leaves no coyote jump after a stomp bounce', () => {
+    const state = arena();
+    dropOnto(state, spawnEnemy(state, 'GOOMBA', 300, undefined, 0));
+    state.player.coyoteTimer = 5;
+    hold(state, 1);
+    expect(typesOf(hold(state, 1, { jump: true, jumpHeld: true }))).not.toContain('JUMP');
+  });
+
+  it('knocks a TURTLE into a shell that can be kicked into other enemies', () => {
+    const state = arena();
+    dropOnto(state, spawnEnemy(state, 'TURTLE', 300, undefined, 0));
+    expect(typesOf(hold(state, 1))).toContain('STOMP');
+    const [shell] = enemiesOf(state, 'SHELL');
+    expect(shell).toBeDefined();
+    expect(shell.vx).toBe(0);
+
+    spawnEnemy(state, 'GOOMBA', 500, undefined, 0);
+    const p = state.player;
+    p.x = p.prevX = shell.x - p.w + 10;
+    p.y = p.prevY = GROUND_Y - p.h;
+    p.vy = 0;
+    p.facingRight = true;
+    const events = hold(state, 60);
+    expect(typesOf(events)).toContain('KICK');
+    expect(typesOf(events)).toContain('KNOCKOUT');
+    expect(enemiesOf(state, 'GOOMBA')).toHaveLength(0);
+  });
+
+  it('bounces a small player off a BEETLE without hurting either', () => {
+    const state = arena();
+    const beetle = spawnEnemy(state, 'BEETLE', 300, undefined, 0);
+    dropOnto(state, beetle);
+    const events = hold(state, 1);
+    expect(typesOf(events)).toContain('BUMP');
+    expect(beetle.active).toBe(true);
+    expect(state.lives).toBe(START_LIVES);
+  });
+
+  it('hurts a player who lands on a THWOMP', () => {
+    const state = arena();
+    makeBig(state);
+    const thwomp = spawnEnemy(state, 'THWOMP', 300, GROUND_Y - 200);
+    dropOnto(state, thwomp);
+    expect(typesOf(hold(state, 1))).toContain('POWER_DOWN');
+    expect(thwomp.active).toBe(true);
+  });
+});
+
+describe('power-downs and lives', () => {
+  it('shrinks a BIG player hit from the side and makes them briefly invulnerable', () => {
+    const state = arena();
+    makeBig(state);
+    const p = state.player;
+    const goomba = spawnEnemy(state, 'GOOMBA', p.x + p.w - 15, undefined, 0);
+    const events = hold(state, 1);
+    expect(events).toContainEqual({ type: 'POWER_DOWN', power: 'SMALL' });
+    expect(p.power).toBe('SMALL');
+    expect(p.isInvulnerable).toBe(true);
+    expect(goomba.active).toBe(true);
+
+    // Still overlapping, but the blink protects them
+    expect(typesOf(hold(state, 30))).not.toContain('LIFE_LOST');
+    expect(state.lives).toBe(START_LIVES);
+  });
+
+  it('costs a small player a life and respawns them at the checkpoint', () => {
+    const state = arena();
+    state.checkpointX = 150;
+    spawnEnemy(state, 'GOOMBA', state.player.x + state.player.w - 15, undefined, 0);
+    const events = hold(state, 1);
+    expect(events).toContainEqual({ type: 'LIFE_LOST', lives: START_LIVES - 1 });
+    expect(state.player.x).toBe(150);
+    expect(state.player.isInvulnerable).toBe(true);
+  });
+
+  it('ends the run when the last life is lost', () => {
+    const state = arena();
+    state.lives = 1;
+    spawnEnemy(state, 'GOOMBA', state.player.x + state.player.w - 15, undefined, 0);
+    expect(typesOf(hold(state, 1))).toContain('GAME_OVER');
+    expect(state.isOver).toBe(true);
+  });
+});
+
+describe('blocks', () => {
+  it('stops a jump that hits a block from below and bumps it', () => {
+    const state = arena();
+    const block = addBlock(state, 'QUESTION_BLOCK', 300, GROUND_Y - 150, 'COIN');
+    const p = state.player;
+    p.x = p.prevX = 300;
+    p.y = p.prevY = block.y + block.h + 2;
+    p.vy = -10;
+    p.isGrounded = false;
+    const events = hold(state, 1);
+    expect(p.y).toBeGreaterThanOrEqual(block.y + block.h);
+    expect(p.vy).toBeGreaterThan(0);
+    expect(typesOf(events)).toContain('COIN');
+    expect(block.type).toBe('USED_BLOCK');
+  });
+
+  it('stops a player running into the side of a block', () => {
+    const state = arena();
+    addBlock(state, 'BLOCK', 300, GROUND_Y - BLOCK_SIZE);
+    hold(state, 90, { right: true, run: true });
+    const p = state.player;
+    expect(p.x + p.w).toBeLessThanOrEqual(300);
+    expect(p.y + p.h).toBe(GROUND_Y);
+  });
+});
+
+describe('fireballs', () => {
+  it('knocks out the first enemy they reach', () => {
+    const state = arena();
+    makeBig(state);
+    state.player.power = 'FIRE';
+    spawnEnemy(state, 'GOOMBA', state.player.x + 200, undefined, 0);
+    const events = hold(state, 60, { fire: true });
+    expect(typesOf(events)).toContain('FIREBALL');
+    expect(typesOf(events)).toContain('KNOCKOUT');
+    expect(enemiesOf(state, 'GOOMBA')).toHaveLength(0);
+  });
+
+  it('burst harmlessly on fireproof enemies', () => {
+    const state = arena();
+    makeBig(state);
+    state.player.power = 'FIRE';
+    const ghost = spawnEnemy(state, 'GHOST', state.player.x + 120, state.player.y + 20);
+    const events = hold(state, 1, { fire: true });
+    hold(state, 10);
+    expect(typesOf(events)).toContain('FIREBALL');
+    expect(ghost.active).toBe(true);
+    expect(enemiesOf(state, 'FIREBALL')).toHaveLength(0);
+  });
+});
+
+describe('coins and extra lives', () => {
+  it('collects a coin for points', () => {
+    const state = arena();
+    const p = state.player;
+    addEntity(state, 'COIN', p.x, p.y, 20, 20);
+    const events = hold(state, 1);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'COIN', coins: 1 }));
+    expect(state.score).toBeGreaterThan(0);
+  });
+
+  it(`turns every ${COINS_PER_LIFE} coins into a life`, () => {
+    const state = arena();
+    state.coins = COINS_PER_LIFE - 1;
+    addEntity(state, 'COIN', state.player.x, state.player.y, 20, 20);
+    expect(hold(state, 1)).toContainEqual({ type: 'LIFE_UP', lives: START_LIVES + 1 });
+    expect(state.coins).toBe(0);
+  });
+
+  it('gives a life for a ONE_UP', () => {
+    const state = arena();
+    addEntity(state, 'ONE_UP', state.player.x, state.player.y, 30, 30);
+    expect(hold(state, 1)).toContainEqual({ type: 'LIFE_UP', lives: START_LIVES + 1 });
+  });
+});
+
+describe('theme switching', () => {
+  it('plants a checkpoint and changes theme at nextCheckpointX', () => {
+    const state = createGameState(7);
+    const boundary = state.nextCheckpointX;
+    const p = state.player;
+    p.x = p.prevX = boundary;
+    p.y = p.prevY = GROUND_Y - 300;
+
+    const events = hold(state, 1);
+    const change = events.find(event => event.type === 'THEME_CHANGE');
+    expect(change).toEqual({ type: 'THEME_CHANGE', themeIndex: state.currentThemeIndex });
+    expect(state.currentThemeIndex).not.toBe(0);
+    expect(state.nextCheckpointX).toBe(boundary + THEME_CHANGE_DISTANCE);
+
+    const [flag] = enemiesOf(state, 'CHECKPOINT');
+    expect(flag.x).toBeGreaterThan(boundary - 200);
+    expect(flag.x).toBeLessThan(boundary + 200);
+
+    p.x = p.prevX = flag.x;
+    p.y = p.prevY = flag.y;
+    p.vy = 0;
+    expect(hold(state, 1)).toContainEqual({ type: 'CHECKPOINT', x: flag.x });
+    expect(state.checkpointX).toBe(flag.x);
+  });
+});
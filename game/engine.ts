@@ -0,0 +1,1169 @@
+import {
+  CANVAS_WIDTH, CANVAS_HEIGHT, GROUND_Y,
+  PHYSICS,
+  PLAYER_W_SMALL, PLAYER_H_SMALL, PLAYER_W_BIG, PLAYER_H_BIG,
+  THEME_CHANGE_DISTANCE, CLOUD_COUNT, MIN_GROUND_BETWEEN_GAPS, WEATHER_STRETCH, WEATHER_CHANCE, RAIN_SPLASH_INTERVAL, PLATFORM_W, PLATFORM_H, THEMES,
+  BLOCK_SIZE, BUMP_FRAMES, COIN_SIZE, COIN_SCORE, COINS_PER_LIFE, COMBO_SCORES, POPUP_FRAMES,
+  THWOMP_FALL_SPEED, THWOMP_RISE_SPEED, GHOST_SPEED, GHOST_SIGHT,
+  SHELL_W, SHELL_H, SHELL_SPEED, SHELL_KICK_GRACE,
+  START_LIVES, RESPAWN_INVULNERABLE_FRAMES, CHECKPOINT_W, CHECKPOINT_H, STAR_FRAMES, KNOCKOUT_SCORE, FIREBALL_SIZE, FIREBALL_SPEED, FIREBALL_BOUNCE,
+  FIREBALL_COOLDOWN, MAX_FIREBALLS, PICKUP_SIZE, Theme
+} from './constants';
+import { nextRandom, worldStream, fxStream } from './random';
+import { Broadphase, createBroadphase, findNear, forEachNear, insertEntity, rebuildBroadphase } from './broadphase';
+import {
+  BlockContents, Entity, FrameInput, GameEvent, GameState, Particle, PlatformPath, PlayerState, PowerState
+} from './types';
+
+// --- Headless Game Engine ---
+// Pure simulation: no DOM, canvas or React. The host feeds one FrameInput per
+// step and reacts to the returned events (HUD updates, game over, ...).
+
+const createPlayer = (): PlayerState => ({
+  x: 100, y: GROUND_Y - PLAYER_H_SMALL, vx: 0, vy: 0,
+  w: PLAYER_W_SMALL, h: PLAYER_H_SMALL,
+  isGrounded: false, isJumping: false, coyoteTimer: 0, jumpBuffer: 0, power: 'SMALL', starTimer: 0, fireCooldown: 0,
+  isInvulnerable: false, invulnerableTimer: 0,
+  facingRight: true, runFrame: 0, standingOn: null, stompCombo: 0,
+  prevX: 100, prevY: GROUND_Y - PLAYER_H_SMALL
+});
+
+const initClouds = (state: GameState) => {
+  const clouds = [];
+  for(let i=0; i<CLOUD_COUNT; i++) {
+      clouds.push({
+          x: nextRandom(state.fxRng) * CANVAS_WIDTH,
+          y: nextRandom(state.fxRng) * (CANVAS_HEIGHT / 2),
+          size: 0.5 + nextRandom(state.fxRng) * 1,
+          parallax: 0.1 + nextRandom(state.fxRng) * 0.3
+      });
+  }
+  state.clouds = clouds;
+};
+
+export const createGameState = (seed: number): GameState => {
+  const state: GameState = {
+    player: createPlayer(),
+    camera: { x: 0, prevX: 0 },
+    entities: [],
+    particles: [],
+    splashes: [],
+    popups: [],
+    clouds: [],
+    decorations: [],
+    // Endless ground is grown by generateWorld as terrain is generated
+    ground: [{ x: -CANVAS_WIDTH, w: CANVAS_WIDTH + 400 }],
+    mode: 'ENDLESS',
+    worldEnd: Infinity,
+    score: 0,
+    highScore: 0,
+    distance: 0,
+    coins: 0,
+    enemiesStomped: 0,
+    lives: START_LIVES,
+    checkpointX: 100,
+    lastGeneratedX: 400,
+    lastGapEndX: 0,
+    nextCheckpointX: THEME_CHANGE_DISTANCE,
+    currentThemeIndex: 0,
+    nextEntityId: 0,
+    weather: 'NONE',
+    weatherStretch: -1,
+    weatherSpells: [],
+    seed,
+    worldRng: worldStream(seed),
+    fxRng: fxStream(seed),
+    frameCount: 0,
+    isOver: false
+  };
+  initClouds(state);
+  return state;
+};
+
+// Starts a fresh run in place, keeping only the high score.
+export const resetGame = (state: GameState, seed: number) => {
+  const highScore = state.highScore;
+  Object.assign(state, createGameState(seed));
+  state.highScore = highScore;
+};
+
+export const step = (state: GameState, input: FrameInput): GameEvent[] => {
+  const events: GameEvent[] = [];
+  if (state.isOver) return events;
+  const scoreBefore = state.score;
+
+  state.frameCount++;
+  snapshotPositions(state);
+  rebuildBroadphase(broadphaseOf(state), state.entities);
+
+  if (input.jump) state.player.jumpBuffer = PHYSICS.jumpBufferFrames;
+  if (performJump(state.player)) {
+    events.push({ type: 'JUMP' });
+  }
+  if (input.fire && shootFireball(state)) {
+    events.push({ type: 'FIREBALL' });
+  }
+  updatePlayer(state, input, events);
+
+  // Fell into a pit
+  if (state.player.y > CANVAS_HEIGHT) {
+    loseLife(state, events);
+    return events;
+  }
+
+  // Camera Follow
+  const targetCamX = Math.min(state.player.x - CANVAS_WIDTH * 0.4, state.worldEnd - CANVAS_WIDTH);
+  if (targetCamX > state.camera.x) {
+    state.camera.x = targetCamX;
+  }
+
+  if (state.mode === 'ENDLESS') {
+    const themeIndex = state.currentThemeIndex;
+    generateWorld(state);
+    if (state.currentThemeIndex !== themeIndex) {
+      events.push({ type: 'THEME_CHANGE', themeIndex: state.currentThemeIndex });
+    }
+  }
+
+  updateWeather(state);
+  updateEntities(state, events);
+  updateParticles(state);
+  updatePopups(state);
+
+  // Distance Score
+  const distance = Math.floor(state.player.x / 100);
+  if (distance > state.distance) {
+      state.score += distance - state.distance;
+      state.distance = distance;
+  }
+
+  // Every change reaches the HUD, whatever earned it
+  if (state.score !== scoreBefore) {
+      events.push({ type: 'SCORE', score: state.score });
+  }
+
+  return events;
+};
+
+const snapshotPositions = (state: GameState) => {
+  const p = state.player;
+  p.prevX = p.x;
+  p.prevY = p.y;
+  state.camera.prevX = state.camera.x;
+  state.entities.forEach(ent => {
+    ent.prevX = ent.x;
+    ent.prevY = ent.y;
+  });
+};
+
+// --- Pools ---
+// Entities and particles come and go every few frames; recycling the objects
+// dropped off the lists keeps the garbage collector from stalling the loop.
+// Only objects no longer in any state's list go back into a pool.
+const MAX_POOLED = 256;
+const entityPool: Entity[] = [];
+const particlePool: Particle[] = [];
+
+const releaseEntity = (ent: Entity) => {
+  if (entityPool.length < MAX_POOLED) entityPool.push(ent);
+};
+
+const releaseParticle = (p: Particle) => {
+  if (particlePool.length < MAX_POOLED) particlePool.push(p);
+};
+
+// --- Broadphase ---
+// One grid per running state (game, replay, editor preview), rebuilt at the
+// start of each step. See broadphase.ts.
+const broadphases = new WeakMap<GameState, Broadphase>();
+
+const broadphaseOf = (state: GameState) => {
+  let grid = broadphases.get(state);
+  if (!grid) {
+    grid = createBroadphase();
+    broadphases.set(state, grid);
+  }
+  return grid;
+};
+
+const forEachEntityNear = (state: GameState, box: Box, visit: (ent: Entity) => void) =>
+  forEachNear(broadphaseOf(state), box, visit);
+
+const findEntityNear = (state: GameState, box: Box, test: (ent: Entity) => boolean) =>
+  findNear(broadphaseOf(state), box, test);
+
+export const addEntity = (state: GameState, type: string, x: number, y: number, w: number, h: number, vx = 0) => {
+  const ent = entityPool.pop() ?? ({} as Entity);
+  ent.id = state.nextEntityId++;
+  ent.type = type;
+  ent.x = x;
+  ent.y = y;
+  ent.w = w;
+  ent.h = h;
+  ent.vx = vx;
+  ent.vy = 0;
+  ent.frame = 0;
+  ent.active = true;
+  ent.prevX = x;
+  ent.prevY = y;
+  ent.path = undefined;
+  ent.contents = undefined;
+  ent.bumpTimer = undefined;
+  ent.aiMode = undefined;
+  ent.aiTimer = undefined;
+  ent.homeY = undefined;
+  ent.dir = undefined;
+  ent.isGrounded = undefined;
+  ent.shellOf = undefined;
+  ent.combo = undefined;
+  state.entities.push(ent);
+  // Spawned mid-step: make it visible to this step's queries too
+  const grid = broadphases.get(state);
+  if (grid) insertEntity(grid, ent);
+  return ent;
+};
+
+// Jump Logic
+// A buffered press jumps as soon as the player can: on the ground, or within
+// the coyote window after walking off a ledge.
+const performJump = (p: PlayerState) => {
+  if (p.jumpBuffer > 0 && (p.isGrounded || p.coyoteTimer > 0)) {
+    p.vy = PHYSICS.jumpForce;
+    p.isGrounded = false;
+    p.isJumping = true;
+    p.coyoteTimer = 0;
+    p.jumpBuffer = 0;
+    return true;
+  }
+  return false;
+};
+
+const updatePlayer = (state: GameState, input: FrameInput, events: GameEvent[]) => {
+  const p = state.player;
+
+  const acceleration = input.run ? PHYSICS.runAcceleration : PHYSICS.acceleration;
+  const maxSpeed = input.run ? PHYSICS.runMaxSpeed : PHYSICS.maxSpeed;
+  const speedBefore = Math.abs(p.vx);
+  if (input.right) {
+      p.vx += acceleration;
+      p.facingRight = true;
+  } else if (input.left) {
+      p.vx -= acceleration;
+      p.facingRight = false;
+  } else {
+      p.vx *= PHYSICS.friction;
+  }
+
+  // Letting go of run eases back down to walking speed instead of snapping
+  const speedLimit = Math.max(maxSpeed, speedBefore - PHYSICS.acceleration);
+  if (Math.abs(p.vx) > speedLimit) p.vx = Math.sign(p.vx) * speedLimit;
+  if (Math.abs(p.vx) < 0.1) p.vx = 0;
+
+  p.x += p.vx;
+  if (p.x < 0) { p.x = 0; p.vx = 0; }
+  if (p.x + p.w > state.worldEnd) { p.x = state.worldEnd - p.w; p.vx = 0; }
+
+  // Blocks are resolved one axis at a time: sides first, then top and bottom
+  blocksHit(state, p).forEach(ent => {
+      p.x = p.x + p.w / 2 < ent.x + ent.w / 2 ? ent.x - p.w : ent.x + ent.w;
+      p.vx = 0;
+  });
+
+  if (p.isJumping && (p.vy >= 0 || !input.jumpHeld)) {
+      p.isJumping = false;
+      p.vy = Math.max(p.vy, PHYSICS.jumpCutSpeed);
+  }
+  p.vy += PHYSICS.gravity;
+  p.y += p.vy;
+
+  // Ground: land only when coming from above, so a player already below the
+  // surface keeps falling down the pit and is pushed off its walls.
+  const wasAboveGround = p.y + p.h - p.vy <= GROUND_Y;
+  p.standingOn = null;
+  if (p.y + p.h > GROUND_Y && wasAboveGround && isOverGround(state, p.x + 5, p.w - 10)) {
+      p.y = GROUND_Y - p.h;
+      p.vy = 0;
+      p.isGrounded = true;
+  } else {
+      p.isGrounded = false;
+      if (p.y + p.h > GROUND_Y) pushOutOfPitWalls(state, p);
+  }
+
+  const hits = blocksHit(state, p);
+  if (hits.length > 0 && p.vy >= 0) {
+      p.y = Math.min(...hits.map(ent => ent.y)) - p.h;
+      p.vy = 0;
+      p.isGrounded = true;
+  } else if (hits.length > 0) {
+      p.y = Math.max(...hits.map(ent => ent.y + ent.h));
+      p.vy = 2; // Head bonk
+      // Only the block closest to the player's head reacts
+      const centre = p.x + p.w / 2;
+      const distance = (ent: Entity) => Math.abs(ent.x + ent.w / 2 - centre);
+      bumpBlock(state, hits.reduce((best, ent) => distance(ent) < distance(best) ? ent : best), events);
+  }
+
+  // Moving platforms are one-way: they can only be landed on
+  forEachEntityNear(state, p, ent => {
+      if (ent.type === 'PLATFORM' && ent.active) {
+          // Precise landing
+          if (p.vy >= 0 &&
+              p.y + p.h - p.vy <= ent.y + 10 &&
+              p.x + p.w > ent.x + 5 && p.x < ent.x + ent.w - 5 &&
+              p.y + p.h >= ent.y) {
+                  p.y = ent.y - p.h;
+                  p.vy = 0;
+                  p.isGrounded = true;
+                  p.standingOn = ent.id;
+          }
+      }
+  });
+
+  if (p.isInvulnerable) {
+      p.invulnerableTimer--;
+      if (p.invulnerableTimer <= 0) p.isInvulnerable = false;
+  }
+  if (p.isGrounded) {
+      p.stompCombo = 0;
+      p.coyoteTimer = PHYSICS.coyoteFrames;
+  } else if (p.coyoteTimer > 0) {
+      p.coyoteTimer--;
+  }
+  if (p.jumpBuffer > 0) p.jumpBuffer--;
+  if (p.starTimer > 0) p.starTimer--;
+  if (p.fireCooldown > 0) p.fireCooldown--;
+
+  if (Math.abs(p.vx) > 0.5 && p.isGrounded) {
+      p.runFrame += Math.abs(p.vx) * 0.05;
+  } else if (!p.isGrounded) {
+      p.runFrame = 1;
+  } else {
+      p.runFrame = 0;
+  }
+};
+
+export const isOverGround = (state: GameState, x: number, w: number) =>
+  state.ground.some(seg => x < seg.x + seg.w && x + w > seg.x);
+
+type Box = { x: number; y: number; w: number; h: number };
+
+const overlaps = (a: Box, b: Box) =>
+  a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+// Solid blocks the player's full bounding box currently overlaps.
+const blocksHit = (state: GameState, p: PlayerState) => {
+  const hits: Entity[] = [];
+  forEachEntityNear(state, p, ent => {
+    if (BLOCK_TYPES.includes(ent.type) && overlaps(p, ent)) hits.push(ent);
+  });
+  return hits;
+};
+
+// A block hit from below. Question blocks pay out once and go dull; a big
+// player smashes bricks, a small one only knocks them.
+const bumpBlock = (state: GameState, ent: Entity, events: GameEvent[]) => {
+  if (ent.type === 'BRICK' && state.player.power !== 'SMALL') {
+      ent.active = false;
+      spawnParticles(state, ent.x + ent.w / 2, ent.y + ent.h / 2, BRICK_DEBRIS_COLOR, 12);
+      events.push({ type: 'BRICK_BREAK', x: ent.x, y: ent.y });
+      return;
+  }
+
+  ent.bumpTimer = BUMP_FRAMES;
+  events.push({ type: 'BUMP', x: ent.x, y: ent.y });
+  if (ent.type !== 'QUESTION_BLOCK') return;
+
+  ent.type = 'USED_BLOCK';
+  if (ent.contents === 'COIN') {
+      collectCoin(state, ent.x + ent.w / 2, ent.y, events);
+  } else {
+      // A mushroom would be wasted on a player who is already big
+      const item = ent.contents === 'MUSHROOM' && state.player.power !== 'SMALL' ? 'FIRE_FLOWER' : ent.contents;
+      addEntity(state, item, ent.x + (ent.w - PICKUP_SIZE) / 2, ent.y - PICKUP_SIZE, PICKUP_SIZE, PICKUP_SIZE);
+  }
+};
+
+// Picks what a generated question block holds from the theme's drop odds.
+const rollContents = (state: GameState, theme: Theme): BlockContents => {
+  let roll = nextRandom(state.worldRng);
+  for (const [item, chance] of Object.entries(theme.drops)) {
+      if (roll < chance) return item as BlockContents;
+      roll -= chance;
+  }
+  return 'COIN';
+};
+
+const pushOutOfPitWalls = (state: GameState, p: PlayerState) => {
+  state.ground.forEach(seg => {
+      if (p.x < seg.x + seg.w && p.x + p.w > seg.x) {
+          const centre = p.x + p.w / 2;
+          p.x = centre < seg.x + seg.w / 2 ? seg.x - p.w : seg.x + seg.w;
+          p.vx = 0;
+      }
+  });
+};
+
+// Grows the last ground segment, or starts a new one after a gap.
+const extendGround = (state: GameState, fromX: number, toX: number) => {
+  const last = state.ground[state.ground.length - 1];
+  if (last && last.x + last.w >= fromX) {
+      last.w = Math.max(last.w, toX - last.x);
+  } else {
+      state.ground.push({ x: fromX, w: toX - fromX });
+  }
+};
+
+export const addBlock = (state: GameState, type: string, x: number, y: number, contents?: BlockContents) => {
+  const ent = addEntity(state, type, x, y, BLOCK_SIZE, BLOCK_SIZE);
+  if (type === 'QUESTION_BLOCK') ent.contents = contents ?? 'COIN';
+  return ent;
+};
+
+export const addPlatform = (state: GameState, x: number, y: number, axis: PlatformPath['axis'], range: number, speed = 0.02) => {
+  const ent = addEntity(state, 'PLATFORM', x, y, PLATFORM_W, PLATFORM_H);
+  ent.path = { axis, originX: x, originY: y, range, speed };
+  return ent;
+};
+
+// Default size, speed and spawn height per enemy type. Anything not listed is
+// a 40x40 walker.
+export const ENEMY_SPECS: Record<string, { w: number; h: number; vx: number; y: number }> = {
+  GHOST: { w: 40, h: 40, vx: 0, y: GROUND_Y - 100 },
+  BEETLE: { w: 40, h: 32, vx: -0.8, y: GROUND_Y - 32 },
+  THWOMP: { w: 60, h: 60, vx: 0, y: GROUND_Y - 150 },
+  CACTUS_MOVING: { w: 50, h: 60, vx: 0, y: GROUND_Y - 60 },
+};
+const DEFAULT_ENEMY_SPEC = { w: 40, h: 40, vx: -1, y: GROUND_Y - 40 };
+
+export const getEnemySpec = (type: string) => ENEMY_SPECS[type] ?? DEFAULT_ENEMY_SPEC;
+
+// Spawns an enemy with its type's default size, speed and height.
+export const spawnEnemy = (state: GameState, type: string, x: number, y?: number, vx?: number) => {
+  const spec = getEnemySpec(type);
+  let defaultY = spec.y;
+  // Ghosts float at a random height
+  if (type === 'GHOST' && y === undefined) defaultY -= nextRandom(state.worldRng) * 100;
+
+  const ent = addEntity(state, type, x, y ?? defaultY, spec.w, spec.h, vx ?? spec.vx);
+  ent.aiMode = 'IDLE';
+  ent.aiTimer = 0;
+  ent.homeY = ent.y;
+  return ent;
+};
+
+// --- Enemy AI ---
+// Custom movement for enemies that don't just walk, see ENEMY_BEHAVIORS.
+type EnemyAI = (state: GameState, ent: Entity, events: GameEvent[]) => void;
+
+const playerCentre = (p: PlayerState) => ({ x: p.x + p.w / 2, y: p.y + p.h / 2 });
+
+// Highest surface (ground or block top) under an entity's footprint that it
+// hasn't already passed, or Infinity over a pit.
+const floorBelow = (state: GameState, ent: Entity) => {
+  const wasAbove = ent.y + ent.h - ent.vy <= GROUND_Y + 1;
+  let floor = wasAbove && isOverGround(state, ent.x, ent.w) ? GROUND_Y : Infinity;
+  forEachEntityNear(state, ent, other => {
+    if (other.active && BLOCK_TYPES.includes(other.type) &&
+        other.x < ent.x + ent.w && other.x + other.w > ent.x &&
+        other.y >= ent.y + ent.h - ent.vy - 1) {
+      floor = Math.min(floor, other.y);
+    }
+  });
+  return floor;
+};
+
+// Hangs still until the player passes underneath, shakes, slams down, rests
+// and then grinds back up to where it started.
+const thwompAI: EnemyAI = (state, ent, events) => {
+  const p = playerCentre(state.player);
+  ent.aiTimer--;
+
+  if (ent.aiMode === 'IDLE') {
+    const below = p.y > ent.y + ent.h && p.x > ent.x - 30 && p.x < ent.x + ent.w + 30;
+    if (below && ent.aiTimer <= 0) {
+      ent.aiMode = 'WARN';
+      ent.aiTimer = 12;
+    }
+  } else if (ent.aiMode === 'WARN') {
+    if (ent.aiTimer <= 0) ent.aiMode = 'SLAM';
+  } else if (ent.aiMode === 'SLAM') {
+    ent.vy = Math.min(ent.vy + PHYSICS.gravity * 1.5, THWOMP_FALL_SPEED);
+    ent.y += ent.vy;
+    const floor = floorBelow(state, ent);
+    if (ent.y + ent.h >= floor) {
+      ent.y = floor - ent.h;
+      ent.vy = 0;
+      ent.aiMode = 'REST';
+      ent.aiTimer = 45;
+      spawnParticles(state, ent.x, floor, '#999', 6);
+      spawnParticles(state, ent.x + ent.w, floor, '#999', 6);
+      events.push({ type: 'SLAM', x: ent.x, y: ent.y });
+    } else if (ent.y > CANVAS_HEIGHT) {
+      ent.active = false;
+    }
+  } else if (ent.aiMode === 'REST') {
+    if (ent.aiTimer <= 0) ent.aiMode = 'RISE';
+  } else if (ent.aiMode === 'RISE') {
+    ent.y -= THWOMP_RISE_SPEED;
+    if (ent.y <= ent.homeY) {
+      ent.y = ent.homeY;
+      ent.aiMode = 'IDLE';
+      ent.aiTimer = 30;
+    }
+  }
+};
+
+// Creeps towards the player while their back is turned and freezes, hiding
+// its face, as soon as it is looked at.
+const ghostAI: EnemyAI = (state, ent) => {
+  const p = playerCentre(state.player);
+  const toX = p.x - (ent.x + ent.w / 2);
+  const toY = p.y - (ent.y + ent.h / 2);
+  const distance = Math.hypot(toX, toY) || 1;
+  const watched = state.player.facingRight ? toX < 0 : toX > 0;
+  ent.dir = toX < 0 ? -1 : 1;
+
+  if (watched || distance > GHOST_SIGHT) {
+    ent.aiMode = watched ? 'SHY' : 'IDLE';
+    ent.vx *= 0.8;
+    ent.vy *= 0.8;
+  } else {
+    ent.aiMode = 'CHASE';
+    ent.vx += (toX / distance) * 0.05;
+    ent.vy += (toY / distance) * 0.05;
+    const speed = Math.hypot(ent.vx, ent.vy);
+    if (speed > GHOST_SPEED) {
+      ent.vx *= GHOST_SPEED / speed;
+      ent.vy *= GHOST_SPEED / speed;
+    }
+  }
+
+  ent.x += ent.vx;
+  ent.y = Math.min(Math.max(ent.y + ent.vy, 20), GROUND_Y - ent.h);
+};
+
+// Whether the next step keeps the entity's leading foot on ground or a block.
+const hasFloorAhead = (state: GameState, ent: Entity) => {
+  const probeX = ent.vx < 0 ? ent.x + ent.vx : ent.x + ent.w + ent.vx - 1;
+  const feet = ent.y + ent.h;
+  if (Math.abs(feet - GROUND_Y) < 2 && isOverGround(state, probeX, 1)) return true;
+  return !!findEntityNear(state, ent, other =>
+    BLOCK_TYPES.includes(other.type) &&
+    Math.abs(feet - other.y) < 2 && probeX >= other.x && probeX < other.x + other.w);
+};
+
+// --- Enemy Behaviors ---
+// How each enemy type moves and reacts to the world. Types with an `ai` own
+// their movement outright; everyone else walks with the physics switched on
+// by the flags below.
+interface EnemyBehavior {
+  gravity: boolean;
+  // Reverse on block sides, pit walls and the level bounds
+  walls: boolean;
+  // Reverse instead of walking off the edge of the ground or a block
+  ledges: boolean;
+  // What happens on touching another enemy: turn back, knock it out, or nothing
+  crowd: 'turn' | 'kill' | 'ignore';
+  // False for enemies that hurt the player however they land on them
+  stompable: boolean;
+  // What a stomp does: squash it, knock it into its shell, or (armored) only
+  // squash it under a big player and bounce a small one off
+  onStomp: 'squash' | 'shell' | 'armored';
+  // Fireballs just burst on it
+  fireproof: boolean;
+  // Stars and kicked shells pass through it
+  knockoutProof: boolean;
+  ai?: EnemyAI;
+}
+
+const WALKER: EnemyBehavior = {
+  gravity: true, walls: true, ledges: false, crowd: 'turn',
+  stompable: true, onStomp: 'squash', fireproof: false, knockoutProof: false
+};
+const FLOATER: EnemyBehavior = { ...WALKER, gravity: false, walls: false, crowd: 'ignore' };
+
+const ENEMY_BEHAVIORS: Record<string, EnemyBehavior> = {
+  TURTLE: { ...WALKER, onStomp: 'shell' },
+  TURTLE_RED: { ...WALKER, ledges: true, onStomp: 'shell' },
+  BEETLE: { ...WALKER, onStomp: 'armored' },
+  CACTUS_MOVING: { ...WALKER, stompable: false },
+  // A kicked shell rebounds off walls and bowls over every enemy in its way
+  SHELL: { ...WALKER, crowd: 'kill' },
+  GHOST: { ...FLOATER, fireproof: true, ai: ghostAI },
+  THWOMP: { ...FLOATER, stompable: false, fireproof: true, knockoutProof: true, ai: thwompAI },
+};
+
+const getEnemyBehavior = (type: string) => ENEMY_BEHAVIORS[type] ?? WALKER;
+
+const updateEnemy = (state: GameState, ent: Entity, events: GameEvent[]) => {
+  const behavior = getEnemyBehavior(ent.type);
+  if (behavior.ai) {
+    behavior.ai(state, ent, events);
+    return;
+  }
+  if (ent.aiTimer > 0) ent.aiTimer--;
+
+  if (behavior.ledges && ent.isGrounded && !hasFloorAhead(state, ent)) ent.vx = -ent.vx;
+  ent.x += ent.vx;
+  if (behavior.walls) bounceOffWalls(state, ent);
+  if (behavior.gravity) fallAndLand(state, ent);
+
+  if (behavior.crowd === 'turn') {
+    forEachEntityNear(state, ent, other => {
+      if (other === ent || !other.active || !ENEMY_TYPES.has(other.type) ||
+          getEnemyBehavior(other.type).crowd === 'ignore' || !overlaps(ent, other)) return;
+      // Both sides of a collision turn away from each other
+      const speed = Math.abs(ent.vx);
+      ent.vx = ent.x + ent.w / 2 < other.x + other.w / 2 ? -speed : speed;
+    });
+  } else if (behavior.crowd === 'kill' && ent.vx !== 0) {
+    knockOutEnemies(state, ent, events);
+  }
+};
+
+const bounceOffWalls = (state: GameState, ent: Entity) => {
+  if (ent.x < 0 || ent.x + ent.w > state.worldEnd) {
+    ent.x = Math.min(Math.max(ent.x, 0), state.worldEnd - ent.w);
+    ent.vx = -ent.vx;
+  }
+  forEachEntityNear(state, ent, other => {
+    if (other.active && BLOCK_TYPES.includes(other.type) && overlaps(ent, other)) {
+      ent.x = ent.vx > 0 ? other.x - ent.w : other.x + other.w;
+      ent.vx = -ent.vx;
+    }
+  });
+  // Below the surface only the sides of the pit are in the way
+  if (ent.y + ent.h > GROUND_Y + 1) {
+    state.ground.forEach(seg => {
+      if (ent.x < seg.x + seg.w && ent.x + ent.w > seg.x) {
+        ent.x = ent.x + ent.w / 2 < seg.x + seg.w / 2 ? seg.x - ent.w : seg.x + seg.w;
+        ent.vx = -ent.vx;
+      }
+    });
+  }
+};
+
+const fallAndLand = (state: GameState, ent: Entity) => {
+  ent.vy += PHYSICS.gravity;
+  ent.y += ent.vy;
+  ent.isGrounded = false;
+
+  const floor = floorBelow(state, ent);
+  if (ent.y + ent.h >= floor) {
+    ent.y = floor - ent.h;
+    ent.vy = 0;
+    ent.isGrounded = true;
+  } else if (ent.y > CANVAS_HEIGHT) {
+    ent.active = false;
+  }
+};
+
+// Moving shells knock out what they hit, each one worth double the last.
+const knockOutEnemies = (state: GameState, ent: Entity, events: GameEvent[]) => {
+  forEachEntityNear(state, ent, other => {
+    if (other === ent || !other.active || !ENEMY_TYPES.has(other.type) ||
+        getEnemyBehavior(other.type).knockoutProof || !overlaps(ent, other)) return;
+    knockOut(state, other, ent.combo++, events);
+  });
+};
+
+// Takes an enemy out of play for points: shells, stars and fireballs. Pass
+// the hit's place in a combo to climb the combo ladder, or null for flat points.
+const knockOut = (state: GameState, ent: Entity, combo: number | null, events: GameEvent[]) => {
+  ent.active = false;
+  const x = ent.x + ent.w / 2;
+  const score = combo === null ? addScore(state, KNOCKOUT_SCORE, x, ent.y) : awardCombo(state, combo, x, ent.y, events);
+  state.enemiesStomped++;
+  spawnParticles(state, ent.x + ent.w / 2, ent.y, '#fff', 5);
+  events.push({ type: 'KNOCKOUT', x: ent.x, y: ent.y, score });
+};
+
+// Everything the player can stomp or be hurt by
+const ENEMY_TYPES = new Set([...THEMES.flatMap(t => t.enemies), 'SHELL']);
+
+// Stomped turtles retreat into a stationary shell where they stand.
+const retreatIntoShell = (ent: Entity) => {
+  ent.shellOf = ent.type;
+  ent.type = 'SHELL';
+  ent.x += (ent.w - SHELL_W) / 2;
+  ent.y += ent.h - SHELL_H;
+  ent.w = SHELL_W;
+  ent.h = SHELL_H;
+  ent.vx = 0;
+  ent.combo = 0;
+  ent.aiTimer = 0;
+};
+
+const generateWorld = (state: GameState) => {
+    const generateHorizon = state.camera.x + CANVAS_WIDTH + 200;
+
+    while (state.lastGeneratedX < generateHorizon) {
+        const theme = THEMES[state.currentThemeIndex];
+        const x = state.lastGeneratedX;
+        const { gapChance, gapWidth, liftChance } = theme.terrain;
+
+        // Pit: no ground, nothing spawned inside; wide ones get a ferry platform
+        if (x > 800 && x > state.lastGapEndX + MIN_GROUND_BETWEEN_GAPS && nextRandom(state.worldRng) < gapChance) {
+            const width = gapWidth[0] + nextRandom(state.worldRng) * (gapWidth[1] - gapWidth[0]);
+            if (width > 200) {
+                const centre = x + width / 2 - PLATFORM_W / 2;
+                addPlatform(state, centre, GROUND_Y - 60, 'x', (width - PLATFORM_W) / 2 + 40);
+            }
+            // A trail of coins shows the way across
+            addCoinArc(state, x, width, GROUND_Y - 60, 90);
+            state.lastGeneratedX += width;
+            state.lastGapEndX = state.lastGeneratedX;
+            continue;
+        }
+
+        // Lift up towards the block row
+        if (x > 800 && nextRandom(state.worldRng) < liftChance) {
+            addPlatform(state, x, GROUND_Y - 130, 'y', 70, 0.025);
+        }
+
+        if (nextRandom(state.worldRng) < 0.15) {
+            const decor = { x, y: GROUND_Y, type: theme.decor };
+            state.decorations.push(decor);
+        }
+
+        if (x > 600 && nextRandom(state.worldRng) < 0.06) {
+           const type = theme.enemies[Math.floor(nextRandom(state.worldRng) * theme.enemies.length)];
+           spawnEnemy(state, type, x);
+        }
+
+        if (x > 600 && nextRandom(state.worldRng) < 0.05) {
+           // Coins and blocks never share a step so no coin ends up inside a block
+           addCoinArc(state, x, 120, GROUND_Y - 40, 50);
+        } else if (x > 600 && nextRandom(state.worldRng) < 0.1) {
+           const height = 120 + (nextRandom(state.worldRng) * 50);
+           const roll = nextRandom(state.worldRng);
+           if (roll < 0.4) {
+               addBlock(state, 'QUESTION_BLOCK', x, GROUND_Y - height, rollContents(state, theme));
+           } else {
+               addBlock(state, roll < 0.7 ? 'BRICK' : 'BLOCK', x, GROUND_Y - height);
+           }
+        }
+
+        state.lastGeneratedX += 60 + nextRandom(state.worldRng) * 60;
+        extendGround(state, x, state.lastGeneratedX);
+        rollWeather(state, state.lastGeneratedX);
+
+        // Theme boundary: checked after solid ground so the flag always has a floor
+        if (state.lastGeneratedX > state.nextCheckpointX) {
+            addEntity(state, 'CHECKPOINT', state.lastGeneratedX - CHECKPOINT_W * 2, GROUND_Y - CHECKPOINT_H, CHECKPOINT_W, CHECKPOINT_H);
+            state.nextCheckpointX += THEME_CHANGE_DISTANCE;
+
+            let nextIndex = Math.floor(nextRandom(state.worldRng) * THEMES.length);
+            if (nextIndex === state.currentThemeIndex) nextIndex = (nextIndex + 1) % THEMES.length;
+            state.currentThemeIndex = nextIndex;
+        }
+    }
+};
+
+// Solid on all four sides. A bumped QUESTION_BLOCK turns into a USED_BLOCK.
+export const BLOCK_TYPES = ['BLOCK', 'QUESTION_BLOCK', 'BRICK', 'USED_BLOCK'];
+// Terrain is resolved in updatePlayer, not by handleCollision
+const TERRAIN_TYPES = [...BLOCK_TYPES, 'PLATFORM'];
+export const PICKUP_TYPES = ['MUSHROOM', 'FIRE_FLOWER', 'STAR', 'ONE_UP', 'COIN'];
+// Entities that never move or animate on their own
+const STATIC_TYPES = [...BLOCK_TYPES, ...PICKUP_TYPES];
+const BRICK_DEBRIS_COLOR = '#B5502B';
+
+const updateEntities = (state: GameState, events: GameEvent[]) => {
+    state.entities.forEach(ent => {
+        if (!ent.active) return;
+        if (ent.bumpTimer > 0) ent.bumpTimer--;
+        if (ent.path) {
+           movePlatform(state, ent);
+        } else if (ent.type === 'FIREBALL') {
+           updateFireball(state, ent, events);
+           ent.frame += 0.3;
+        } else if (!STATIC_TYPES.includes(ent.type)) {
+           // Enemies wake up as they come into view
+           if (ent.x > state.camera.x + CANVAS_WIDTH + 100) return;
+           updateEnemy(state, ent, events);
+           ent.frame += 0.1;
+        }
+
+        if (!state.isOver && checkCollision(state.player, ent)) {
+           handleCollision(state, ent, events);
+        }
+    });
+
+    // Keep the world back to the checkpoint so a respawn has somewhere to land
+    const keepFrom = Math.min(state.camera.x, respawnCameraX(state)) - 200;
+    let kept = 0;
+    state.entities.forEach(e => {
+        if (e.active && e.x > keepFrom) state.entities[kept++] = e;
+        else releaseEntity(e);
+    });
+    state.entities.length = kept;
+    state.decorations = state.decorations.filter(d => d.x > keepFrom);
+    state.ground = state.ground.filter(seg => seg.x + seg.w > keepFrom);
+};
+
+// Platforms swing around their origin; a player standing on one rides along.
+const movePlatform = (state: GameState, ent: Entity) => {
+    const path = ent.path;
+    ent.frame += path.speed;
+    const offset = Math.sin(ent.frame) * path.range;
+    const nextX = path.axis === 'x' ? path.originX + offset : path.originX;
+    const nextY = path.axis === 'y' ? path.originY + offset : path.originY;
+    ent.vx = nextX - ent.x;
+    ent.vy = nextY - ent.y;
+    ent.x = nextX;
+    ent.y = nextY;
+
+    const p = state.player;
+    if (p.standingOn === ent.id) {
+        p.x += ent.vx;
+        p.y = ent.y - p.h;
+    }
+};
+
+export const checkCollision = (p: PlayerState, ent: Entity) => {
+    const px = p.x + 5;
+    const pw = p.w - 10;
+    const py = p.y;
+    const ph = p.h;
+
+    return (
+        px < ent.x + ent.w &&
+        px + pw > ent.x &&
+        py < ent.y + ent.h &&
+        py + ph > ent.y
+    );
+};
+
+const handleCollision = (state: GameState, ent: Entity, events: GameEvent[]) => {
+    const p = state.player;
+
+    if (PICKUP_TYPES.includes(ent.type)) {
+        collectPickup(state, ent, events);
+        return;
+    }
+
+    if (ent.type === 'GOAL') {
+        levelClear(state, events);
+        return;
+    }
+
+    if (ent.type === 'CHECKPOINT') {
+        ent.type = 'CHECKPOINT_REACHED';
+        state.checkpointX = ent.x;
+        spawnParticles(state, ent.x, ent.y, '#4CAF50', 10);
+        events.push({ type: 'CHECKPOINT', x: ent.x });
+        return;
+    }
+    if (ent.type === 'CHECKPOINT_REACHED') return;
+
+    if (TERRAIN_TYPES.includes(ent.type) || ent.type === 'FIREBALL') return;
+
+    // Star power bowls over anything it touches
+    if (p.starTimer > 0) {
+        if (!getEnemyBehavior(ent.type).knockoutProof) knockOut(state, ent, null, events);
+        return;
+    }
+
+    const hitFromTop = (p.y + p.h) - ent.y < 35 && p.vy > 0;
+
+    if (ent.type === 'SHELL') {
+        touchShell(state, ent, hitFromTop, events);
+        return;
+    }
+
+    if (p.isInvulnerable) return;
+
+    const behavior = getEnemyBehavior(ent.type);
+    if (hitFromTop && behavior.onStomp === 'armored' && p.power === 'SMALL') {
+        // Hard shell: a small player just bounces off
+        p.y = ent.y - p.h;
+        bounceOff(p);
+        events.push({ type: 'BUMP', x: ent.x, y: ent.y });
+    } else if (hitFromTop && behavior.stompable) {
+        if (behavior.onStomp === 'shell') {
+            retreatIntoShell(ent);
+            p.y = ent.y - p.h;
+        } else {
+            ent.active = false;
+        }
+        bounceOff(p);
+        awardCombo(state, p.stompCombo++, ent.x + ent.w / 2, ent.y, events);
+        state.enemiesStomped++;
+        spawnParticles(state, ent.x, ent.y, '#fff', 5);
+        events.push({ type: 'STOMP', x: ent.x, y: ent.y });
+    } else {
+        hurtPlayer(state, events);
+    }
+};
+
+// Stomp bounce. It counts as the jump, so a stomp straight after leaving a
+// ledge can't be followed by a coyote jump, and releasing the button cuts it short.
+const bounceOff = (p: PlayerState) => {
+    p.vy = PHYSICS.bounceForce;
+    p.isJumping = true;
+    p.coyoteTimer = 0;
+};
+
+// Resting shells get kicked the way the player faces; a moving one is stopped
+// by a stomp and hurts on any other contact once it is clear of the kick.
+const touchShell = (state: GameState, ent: Entity, hitFromTop: boolean, events: GameEvent[]) => {
+    const p = state.player;
+    if (ent.vx === 0) {
+        ent.vx = p.facingRight ? SHELL_SPEED : -SHELL_SPEED;
+        ent.aiTimer = SHELL_KICK_GRACE;
+        ent.combo = 0;
+        events.push({ type: 'KICK', x: ent.x, y: ent.y });
+    } else if (ent.aiTimer > 0) {
+        return;
+    } else if (hitFromTop) {
+        ent.vx = 0;
+        p.y = ent.y - p.h;
+        bounceOff(p);
+        events.push({ type: 'STOMP', x: ent.x, y: ent.y });
+    } else if (!p.isInvulnerable) {
+        hurtPlayer(state, events);
+    }
+};
+
+// --- Power-ups ---
+
+// Resizes the player for a power state, keeping their feet where they are.
+const setPower = (p: PlayerState, power: PowerState) => {
+    const h = power === 'SMALL' ? PLAYER_H_SMALL : PLAYER_H_BIG;
+    p.y += p.h - h;
+    p.w = power === 'SMALL' ? PLAYER_W_SMALL : PLAYER_W_BIG;
+    p.h = h;
+    p.power = power;
+};
+
+const collectPickup = (state: GameState, ent: Entity, events: GameEvent[]) => {
+    const p = state.player;
+    ent.active = false;
+    if (ent.type === 'COIN') {
+        collectCoin(state, ent.x + ent.w / 2, ent.y, events);
+        return;
+    }
+    spawnParticles(state, ent.x, ent.y, '#FFD700', 10);
+
+    if (ent.type === 'ONE_UP') {
+        gainLife(state, ent.x + ent.w / 2, ent.y, events);
+    } else if (ent.type === 'STAR') {
+        p.starTimer = STAR_FRAMES;
+        events.push({ type: 'STAR' });
+    } else {
+        const power = ent.type === 'FIRE_FLOWER' ? 'FIRE' : p.power === 'SMALL' ? 'BIG' : p.power;
+        setPower(p, power);
+        events.push({ type: 'POWER_UP', power });
+    }
+};
+
+// Every hit costs one power level; a small player dies.
+const hurtPlayer = (state: GameState, events: GameEvent[]) => {
+    const p = state.player;
+    if (p.power === 'SMALL') {
+        loseLife(state, events);
+        return;
+    }
+    const power = p.power === 'FIRE' ? 'BIG' : 'SMALL';
+    setPower(p, power);
+    p.isInvulnerable = true;
+    p.invulnerableTimer = 90;
+    events.push({ type: 'POWER_DOWN', power });
+};
+
+const shootFireball = (state: GameState) => {
+    const p = state.player;
+    if (p.power !== 'FIRE' || p.fireCooldown > 0) return false;
+    if (state.entities.filter(ent => ent.active && ent.type === 'FIREBALL').length >= MAX_FIREBALLS) return false;
+
+    const dir = p.facingRight ? 1 : -1;
+    const x = dir > 0 ? p.x + p.w : p.x - FIREBALL_SIZE;
+    addEntity(state, 'FIREBALL', x, p.y + p.h / 3, FIREBALL_SIZE, FIREBALL_SIZE, dir * FIREBALL_SPEED);
+    p.fireCooldown = FIREBALL_COOLDOWN;
+    return true;
+};
+
+// Fireballs hop along the ground and burst on walls and on the first enemy
+// they touch, taking it out unless it shrugs fire off.
+const updateFireball = (state: GameState, ent: Entity, events: GameEvent[]) => {
+    ent.x += ent.vx;
+    ent.vy += PHYSICS.gravity;
+    ent.y += ent.vy;
+    const floor = floorBelow(state, ent);
+    if (ent.y + ent.h >= floor) {
+        ent.y = floor - ent.h;
+        ent.vy = FIREBALL_BOUNCE;
+    }
+
+    if (ent.x + ent.w < state.camera.x || ent.x > state.camera.x + CANVAS_WIDTH || ent.y > CANVAS_HEIGHT) {
+        ent.active = false;
+        return;
+    }
+
+    const intoPitWall = ent.y + ent.h > GROUND_Y + 1 && isOverGround(state, ent.x, ent.w);
+    const intoBlock = !!findEntityNear(state, ent, other =>
+        BLOCK_TYPES.includes(other.type) && overlaps(ent, other));
+    const target = findEntityNear(state, ent, other =>
+        ENEMY_TYPES.has(other.type) && overlaps(ent, other));
+
+    if (target && !getEnemyBehavior(target.type).fireproof) knockOut(state, target, null, events);
+    if (intoPitWall || intoBlock || target) {
+        ent.active = false;
+        spawnParticles(state, ent.x, ent.y, '#FF7043', 4);
+    }
+};
+
+export const spawnParticles = (state: GameState, x: number, y: number, color: string, count: number) =>
+    emitParticles(state, state.particles, x, y, color, count);
+
+const emitParticles = (state: GameState, list: Particle[], x: number, y: number, color: string, count: number) => {
+    for(let i=0; i<count; i++) {
+        const p = particlePool.pop() ?? ({} as Particle);
+        p.x = x;
+        p.y = y;
+        p.vx = (nextRandom(state.fxRng) - 0.5) * 10;
+        p.vy = (nextRandom(state.fxRng) - 0.5) * 10;
+        p.life = 20 + nextRandom(state.fxRng) * 20;
+        p.color = color;
+        list.push(p);
+    }
+};
+
+// --- Weather ---
+// Spells of the theme's weather come and go with distance. Only rain touches
+// the simulation: its splashes are simulated whatever the renderer's effects
+// quality, so runs play back identically, but in their own list so they can
+// be left undrawn along with the rain.
+const RAIN_SPLASH_COLOR = '#BBDEFB';
+
+// Decides, as part of the world, whether each stretch up to `x` gets a spell.
+export const rollWeather = (state: GameState, x: number) => {
+    const last = Math.floor(x / WEATHER_STRETCH);
+    while (state.weatherSpells.length <= last) {
+        state.weatherSpells.push(nextRandom(state.worldRng) < WEATHER_CHANCE);
+    }
+};
+
+const updateWeather = (state: GameState) => {
+    const theme = THEMES[state.currentThemeIndex];
+    const stretch = Math.floor(state.camera.x / WEATHER_STRETCH);
+    if (stretch !== state.weatherStretch) {
+        state.weatherStretch = stretch;
+        state.weather = state.weatherSpells[stretch] ? theme.effects.weather : 'NONE';
+    } else if (state.weather !== 'NONE') {
+        // A new theme brings its own weather, or ends the spell if it has none
+        state.weather = theme.effects.weather;
+    }
+    if (state.weather === 'RAIN' && state.frameCount % RAIN_SPLASH_INTERVAL === 0) {
+        const x = state.camera.x + nextRandom(state.fxRng) * CANVAS_WIDTH;
+        if (isOverGround(state, x, 1)) emitParticles(state, state.splashes, x, GROUND_Y, RAIN_SPLASH_COLOR, 2);
+    }
+};
+
+const ageParticles = (list: Particle[]) => {
+    let kept = 0;
+    list.forEach(p => {
+        p.x += p.vx;
+        p.y += p.vy;
+        p.life--;
+        if (p.life > 0) list[kept++] = p;
+        else releaseParticle(p);
+    });
+    list.length = kept;
+};
+
+const updateParticles = (state: GameState) => {
+    ageParticles(state.particles);
+    ageParticles(state.splashes);
+};
+
+// --- Scoring ---
+
+// Adds points and floats them up from where they were earned.
+const addScore = (state: GameState, points: number, x: number, y: number) => {
+  state.score += points;
+  state.popups.push({ x, y, text: String(points), life: POPUP_FRAMES });
+  return points;
+};
+
+// Points for the nth hit of a combo (0-based); past the top of the ladder
+// every further hit is worth a life instead.
+const awardCombo = (state: GameState, combo: number, x: number, y: number, events: GameEvent[]) => {
+  if (combo < COMBO_SCORES.length) return addScore(state, COMBO_SCORES[combo], x, y);
+  gainLife(state, x, y, events);
+  return 0;
+};
+
+const collectCoin = (state: GameState, x: number, y: number, events: GameEvent[]) => {
+  state.coins++;
+  addScore(state, COIN_SCORE, x, y);
+  spawnParticles(state, x, y, '#FFD700', 6);
+  if (state.coins >= COINS_PER_LIFE) {
+    state.coins -= COINS_PER_LIFE;
+    gainLife(state, x, y - 20, events);
+  }
+  events.push({ type: 'COIN', x, y, coins: state.coins });
+};
+
+const gainLife = (state: GameState, x: number, y: number, events: GameEvent[]) => {
+  state.lives++;
+  state.popups.push({ x, y, text: '1UP', life: POPUP_FRAMES });
+  events.push({ type: 'LIFE_UP', lives: state.lives });
+};
+
+const updatePopups = (state: GameState) => {
+  state.popups.forEach(popup => {
+    popup.y -= 1;
+    popup.life--;
+  });
+  state.popups = state.popups.filter(popup => popup.life > 0);
+};
+
+// Lays coins along an arc from x to x + width, peaking `rise` above `baseY`.
+const addCoinArc = (state: GameState, x: number, width: number, baseY: number, rise: number) => {
+  const count = Math.max(3, Math.round(width / 40));
+  for (let i = 0; i < count; i++) {
+    const t = i / (count - 1);
+    const cy = baseY - Math.sin(Math.PI * t) * rise;
+    addEntity(state, 'COIN', x + t * width - COIN_SIZE / 2, cy - COIN_SIZE / 2, COIN_SIZE, COIN_SIZE);
+  }
+};
+
+// --- Lives ---
+
+const respawnCameraX = (state: GameState) =>
+  Math.max(0, Math.min(state.checkpointX - CANVAS_WIDTH * 0.4, state.worldEnd - CANVAS_WIDTH));
+
+// Costs a life and puts a fresh small player back at the last checkpoint,
+// blinking for a moment; the run only ends with the last life.
+const loseLife = (state: GameState, events: GameEvent[]) => {
+  state.lives--;
+  if (state.lives <= 0) {
+    gameOver(state, events);
+    return;
+  }
+  events.push({ type: 'LIFE_LOST', lives: state.lives });
+
+  const p = createPlayer();
+  p.x = p.prevX = state.checkpointX;
+  p.isInvulnerable = true;
+  p.invulnerableTimer = RESPAWN_INVULNERABLE_FRAMES;
+  state.player = p;
+  state.camera.x = state.camera.prevX = respawnCameraX(state);
+};
+
+const gameOver = (state: GameState, events: GameEvent[]) => {
+  state.isOver = true;
+  // HI mirrors the leaderboard, which only ranks endless runs
+  if (state.mode === 'ENDLESS' && state.score > state.highScore) {
+    state.highScore = state.score;
+  }
+  events.push({ type: 'GAME_OVER', score: state.score });
+};
+
+const levelClear = (state: GameState, events: GameEvent[]) => {
+  state.isOver = true;
+  spawnParticles(state, state.player.x, state.player.y, '#FFD700', 20);
+  events.push({ type: 'LEVEL_CLEAR', score: state.score, frames: state.frameCount });
+};
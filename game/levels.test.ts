@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_LEVELS } from '../levels';
+import { GROUND_Y } from './constants';
+import { createBlankLevel, placeItem } from './editor';
+import { createGameState } from './engine';
+import { LevelData, loadLevel, parseLevel } from './levels';
+
+const roundTrip = (level: LevelData) => parseLevel(JSON.parse(JSON.stringify(level)));
+
+describe('parseLevel', () => {
+  it.each(BUILT_IN_LEVELS.map(level => [level.name, level] as const))('round-trips %s', (_, level) => {
+    expect(roundTrip(level)).toEqual(level);
+  });
+
+  it('round-trips a level built in the editor', () => {
+    let level = createBlankLevel('CASTLE');
+    level = placeItem(level, 'QUESTION_BLOCK', 300, GROUND_Y - 120);
+    level = placeItem(level, 'COIN', 400, GROUND_Y - 120);
+    level = placeItem(level, { enemy: 'THWOMP' }, 500, GROUND_Y - 200);
+    level = placeItem(level, { decor: 'CHAIN' }, 600, GROUND_Y);
+    expect(roundTrip(level)).toMatchObject(level);
+  });
+
+  it('drops fields it does not know', () => {
+    const level = { ...createBlankLevel(), author: 'someone', blocks: [{ x: 100, y: 200, colour: 'red' }] };
+    const parsed = parseLevel(level);
+    expect(parsed).not.toHaveProperty('author');
+    expect(parsed.blocks[0]).not.toHaveProperty('colour');
+  });
+
+  const blank = createBlankLevel();
+  it.each<[string, unknown, string]>([
+    ['a non-object', 'level', 'must be a JSON object'],
+    ['null', null, 'must be a JSON object'],
+    ['a blank name', { ...blank, name: ' ' }, 'needs a "name"'],
+    ['an unknown theme', { ...blank, theme: 'SPACE' }, 'Unknown theme "SPACE"'],
+    ['a zero length', { ...blank, length: 0 }, 'positive "length"'],
+    ['a missing goal', { ...blank, goal: undefined }, '"goal"'],
+    ['ground that is not an array', { ...blank, ground: {} }, '"ground" must be an array'],
+    ['a non-object entry', { ...blank, coins: [5] }, '"coins" entries must be objects'],
+    ['a block without y', { ...blank, blocks: [{ x: 1 }] }, 'numeric "y"'],
+    ['an unknown block type', { ...blank, blocks: [{ x: 1, y: 1, type: 'LAVA' }] }, 'Unknown block type "LAVA"'],
+    ['unknown block contents', { ...blank, blocks: [{ x: 1, y: 1, contents: 'CAKE' }] }, 'Unknown block contents'],
+    ['a platform axis', { ...blank, platforms: [{ x: 1, y: 1, range: 9, axis: 'z' }] }, '"axis"'],
+    ['an unknown enemy', { ...blank, enemies: [{ x: 1, type: 'DRAGON' }] }, 'Unknown enemy type'],
+    ['a string enemy speed', { ...blank, enemies: [{ x: 1, type: 'GOOMBA', vx: '2' }] }, '"vx" must be a number'],
+    ['a non-finite coordinate', { ...blank, mushrooms: [{ x: Infinity, y: 1 }] }, 'numeric "x"'],
+    ['an unknown decoration', { ...blank, decorations: [{ x: 1, type: 'TREE' }] }, 'Unknown decoration type']
+  ])('rejects %s', (_, data, message) => {
+    expect(() => parseLevel(data)).toThrow(message);
+  });
+});
+
+describe('loadLevel', () => {
+  it('replaces the generated world with the layout', () => {
+    const level = placeItem(placeItem(createBlankLevel(), { enemy: 'GOOMBA' }, 500, GROUND_Y), 'BRICK', 300, GROUND_Y - 120);
+    const state = createGameState(1);
+    loadLevel(state, level);
+    expect(state.mode).toBe('LEVEL');
+    expect(state.worldEnd).toBe(level.length);
+    expect(state.entities.map(ent => ent.type).sort()).toEqual(['BRICK', 'GOAL', 'GOOMBA']);
+    expect(state.player.x).toBe(level.start.x);
+  });
+});
@@ -0,0 +1,181 @@
+import { CANVAS_WIDTH, CHECKPOINT_H, CHECKPOINT_W, COIN_SIZE, GROUND_Y, STEP_MS, THEMES } from './constants';
+import { BLOCK_TYPES, addBlock, addEntity, addPlatform, rollWeather, spawnEnemy } from './engine';
+import { BlockContents, GameState, GroundSegment } from './types';
+
+// --- Hand-authored Levels ---
+// Levels are plain JSON so they can be written by hand, saved from the editor
+// or embedded in a replay. All coordinates are world pixels; y is the top edge
+// (GROUND_Y is the surface of the ground).
+
+export interface LevelData {
+  name: string;
+  theme: string;
+  length: number;
+  start?: { x: number };
+  ground: GroundSegment[];
+  // `type` defaults to a plain BLOCK; only question blocks use `contents`
+  blocks: { x: number; y: number; type?: string; contents?: BlockContents }[];
+  // Moving platforms: x/y is the centre of the swing, range the distance either way
+  platforms?: { x: number; y: number; axis: 'x' | 'y'; range: number; speed?: number }[];
+  enemies: { type: string; x: number; y?: number; vx?: number }[];
+  mushrooms: { x: number; y: number }[];
+  coins?: { x: number; y: number }[];
+  decorations: { x: number; type: string }[];
+  goal: { x: number };
+  checkpoints?: { x: number }[];
+}
+
+export const GOAL_HEIGHT = 250;
+
+const ENEMY_TYPES = [...new Set(THEMES.flatMap(t => t.enemies))];
+const DECOR_TYPES = THEMES.map(t => t.decor);
+const BLOCK_CONTENTS: BlockContents[] = ['MUSHROOM', 'FIRE_FLOWER', 'STAR', 'ONE_UP', 'COIN'];
+const PLATFORM_AXES = ['x', 'y'] as const;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+// Entries of an optional array, each checked to be an object.
+const expectArray = (data: Fields, key: string): Fields[] => {
+  const value = data[key] ?? [];
+  if (!Array.isArray(value)) throw new Error(`Level "${key}" must be an array`);
+  return value.map((item: unknown) => {
+    if (!isObject(item)) throw new Error(`Level "${key}" entries must be objects`);
+    return item;
+  });
+};
+
+function expectPoint<F extends string>(item: Fields, key: string, fields: readonly F[]): asserts item is Fields & Record<F, number> {
+  fields.forEach(field => {
+    if (!isNumber(item[field])) throw new Error(`Level "${key}" entry is missing a numeric "${field}"`);
+  });
+}
+
+const optionalNumber = (item: Fields, field: string, message: string): number | undefined => {
+  const value = item[field];
+  if (value === undefined) return undefined;
+  if (!isNumber(value)) throw new Error(message);
+  return value;
+};
+
+const optionalOneOf = <T extends string>(value: unknown, options: readonly T[], message: string): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!isOneOf(value, options)) throw new Error(message);
+  return value;
+};
+
+// Validates untrusted JSON (a file, a replay) and returns a normalised level.
+export const parseLevel = (data: unknown): LevelData => {
+  if (!isObject(data)) throw new Error('Level must be a JSON object');
+  const { name, theme, length, start, goal } = data;
+  if (typeof name !== 'string' || name.trim() === '') throw new Error('Level needs a "name"');
+  if (!isOneOf(theme, THEMES.map(t => t.name))) {
+    throw new Error(`Unknown theme "${theme}", expected one of ${THEMES.map(t => t.name).join(', ')}`);
+  }
+  if (!isNumber(length) || length <= 0) throw new Error('Level needs a positive "length"');
+  if (!isObject(goal) || !isNumber(goal.x)) throw new Error('Level needs a "goal" with an "x"');
+
+  const ground = expectArray(data, 'ground').map(seg => {
+    expectPoint(seg, 'ground', ['x', 'w']);
+    return { x: seg.x, w: seg.w };
+  });
+  const blocks = expectArray(data, 'blocks').map(block => {
+    expectPoint(block, 'blocks', ['x', 'y']);
+    const type = optionalOneOf(block.type, BLOCK_TYPES, `Unknown block type "${block.type}"`);
+    const contents = optionalOneOf(block.contents, BLOCK_CONTENTS, `Unknown block contents "${block.contents}"`);
+    return { x: block.x, y: block.y, type, contents };
+  });
+  const platforms = expectArray(data, 'platforms').map(platform => {
+    expectPoint(platform, 'platforms', ['x', 'y', 'range']);
+    const { axis } = platform;
+    if (!isOneOf(axis, PLATFORM_AXES)) throw new Error('Platform "axis" must be "x" or "y"');
+    const speed = optionalNumber(platform, 'speed', 'Platform "speed" must be a number');
+    return { x: platform.x, y: platform.y, axis, range: platform.range, speed };
+  });
+  const mushrooms = expectArray(data, 'mushrooms').map(mushroom => {
+    expectPoint(mushroom, 'mushrooms', ['x', 'y']);
+    return { x: mushroom.x, y: mushroom.y };
+  });
+  const coins = expectArray(data, 'coins').map(coin => {
+    expectPoint(coin, 'coins', ['x', 'y']);
+    return { x: coin.x, y: coin.y };
+  });
+
+  const enemies = expectArray(data, 'enemies').map(enemy => {
+    expectPoint(enemy, 'enemies', ['x']);
+    const { type } = enemy;
+    if (!isOneOf(type, ENEMY_TYPES)) throw new Error(`Unknown enemy type "${type}"`);
+    const y = optionalNumber(enemy, 'y', 'Enemy "y" must be a number');
+    const vx = optionalNumber(enemy, 'vx', 'Enemy "vx" must be a number');
+    return { type, x: enemy.x, y, vx };
+  });
+
+  const checkpoints = expectArray(data, 'checkpoints').map(checkpoint => {
+    expectPoint(checkpoint, 'checkpoints', ['x']);
+    return { x: checkpoint.x };
+  });
+
+  const decorations = expectArray(data, 'decorations').map(decor => {
+    expectPoint(decor, 'decorations', ['x']);
+    const { type } = decor;
+    if (!isOneOf(type, DECOR_TYPES)) throw new Error(`Unknown decoration type "${type}"`);
+    return { x: decor.x, type };
+  });
+
+  return {
+    name,
+    theme,
+    length,
+    start: isObject(start) && isNumber(start.x) ? { x: start.x } : undefined,
+    ground,
+    blocks,
+    platforms,
+    enemies,
+    mushrooms,
+    coins,
+    decorations,
+    goal: { x: goal.x },
+    checkpoints
+  };
+};
+
+// Replaces the generated world of a freshly reset state with the level layout.
+export const loadLevel = (state: GameState, level: LevelData) => {
+  state.mode = 'LEVEL';
+  state.worldEnd = level.length;
+  state.currentThemeIndex = Math.max(0, THEMES.findIndex(t => t.name === level.theme));
+  state.ground = level.ground.map(seg => ({ ...seg }));
+  state.entities = [];
+  state.decorations = level.decorations.map(d => ({ x: d.x, y: GROUND_Y, type: d.type }));
+
+  level.blocks.forEach(b => addBlock(state, b.type ?? 'BLOCK', b.x, b.y, b.contents));
+  level.platforms?.forEach(pl => addPlatform(state, pl.x, pl.y, pl.axis, pl.range, pl.speed));
+  level.mushrooms.forEach(m => addEntity(state, 'MUSHROOM', m.x, m.y, 30, 30));
+  level.coins?.forEach(c => addEntity(state, 'COIN', c.x, c.y, COIN_SIZE, COIN_SIZE));
+  level.enemies.forEach(e => spawnEnemy(state, e.type, e.x, e.y, e.vx));
+  addEntity(state, 'GOAL', level.goal.x, GROUND_Y - GOAL_HEIGHT, 20, GOAL_HEIGHT);
+  level.checkpoints?.forEach(c => addEntity(state, 'CHECKPOINT', c.x, GROUND_Y - CHECKPOINT_H, CHECKPOINT_W, CHECKPOINT_H));
+
+  const p = state.player;
+  p.x = p.prevX = level.start?.x ?? p.x;
+  state.checkpointX = p.x;
+  state.camera.x = state.camera.prevX = Math.max(0, p.x - CANVAS_WIDTH * 0.4);
+
+  state.weatherSpells = [];
+  rollWeather(state, level.length);
+};
+
+export const formatLevelTime = (frames: number) => {
+  const totalMs = Math.round(frames * STEP_MS);
+  const minutes = Math.floor(totalMs / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const hundredths = Math.floor((totalMs % 1000) / 10);
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+};
@@ -0,0 +1,109 @@
+import { CANVAS_WIDTH, CANVAS_HEIGHT, CAMERA_TWEEN, STEP_MS } from './constants';
+
+// --- Camera Projection ---
+// The simulation lives on the game plane (z = 0); solid things reach back
+// from it along +z. The camera orbits a pivot in the middle of the view:
+// yaw swings it right (+) or left (-), pitch raises it to look down onto the
+// tops of things, and fov sets how strongly lines converge on the vanishing
+// point. An fov of 0 is orthographic, so nothing shrinks with distance. With
+// pitch and yaw at 0 the game plane lands exactly where a flat 2D render
+// puts it.
+
+// Angles in degrees. The view is pure render state: it eases between
+// CAMERA_MODES entries without the simulation knowing.
+export interface CameraView {
+  fov: number;
+  pitch: number;
+  yaw: number;
+}
+
+export const FLAT_VIEW: CameraView = { fov: 0, pitch: 0, yaw: 0 };
+
+const VIEW_KEYS = ['fov', 'pitch', 'yaw'] as const;
+
+// Moves `view` closer to `target` by CAMERA_TWEEN of the way for every STEP_MS
+// of `elapsed` time, so the ease lasts as long at any refresh rate. Snaps once
+// it is close enough.
+export const easeCameraView = (view: CameraView, target: CameraView, elapsed: number) => {
+  const fraction = 1 - (1 - CAMERA_TWEEN) ** (elapsed / STEP_MS);
+  VIEW_KEYS.forEach(key => {
+    view[key] += (target[key] - view[key]) * fraction;
+    if (Math.abs(target[key] - view[key]) < 0.05) view[key] = target[key];
+  });
+};
+
+export interface Projection {
+  pivotX: number;
+  pivotY: number;
+  cosYaw: number;
+  sinYaw: number;
+  cosPitch: number;
+  sinPitch: number;
+  // Distance from the eye to the game plane in pixels; Infinity when orthographic
+  focal: number;
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+  // Size on screen of one world pixel at this point
+  scale: number;
+  // Distance from the eye, for back-to-front sorting
+  depth: number;
+}
+
+const DEGREES = Math.PI / 180;
+// Below this the view is treated as orthographic
+const MIN_FOV = 0.5;
+
+export const createProjection = (view: CameraView, camX: number): Projection => ({
+  pivotX: camX + CANVAS_WIDTH / 2,
+  pivotY: CANVAS_HEIGHT / 2,
+  cosYaw: Math.cos(view.yaw * DEGREES),
+  sinYaw: Math.sin(view.yaw * DEGREES),
+  cosPitch: Math.cos(view.pitch * DEGREES),
+  sinPitch: Math.sin(view.pitch * DEGREES),
+  focal: view.fov < MIN_FOV ? Infinity : (CANVAS_HEIGHT / 2) / Math.tan(view.fov * DEGREES / 2)
+});
+
+export const project = (proj: Projection, x: number, y: number, z: number): ScreenPoint => {
+  const px = x - proj.pivotX;
+  const py = y - proj.pivotY;
+  // Yaw turns around the vertical axis, then pitch around the horizontal one
+  const cx = px * proj.cosYaw + z * proj.sinYaw;
+  const cz = z * proj.cosYaw - px * proj.sinYaw;
+  const cy = py * proj.cosPitch - cz * proj.sinPitch;
+  const forward = cz * proj.cosPitch + py * proj.sinPitch;
+  if (proj.focal === Infinity) {
+    return { x: CANVAS_WIDTH / 2 + cx, y: CANVAS_HEIGHT / 2 + cy, scale: 1, depth: forward };
+  }
+  // Never let a point reach the eye
+  const distance = Math.max(proj.focal + forward, 1);
+  const scale = proj.focal / distance;
+  return {
+    x: CANVAS_WIDTH / 2 + cx * scale,
+    y: CANVAS_HEIGHT / 2 + cy * scale,
+    scale,
+    depth: Math.hypot(cx, cy, distance)
+  };
+};
+
+// Screen offset of one pixel of depth at the pivot: which way, and how far,
+// things further back appear to lean.
+export const depthLean = (proj: Projection) => {
+  const front = project(proj, proj.pivotX, proj.pivotY, 0);
+  const back = project(proj, proj.pivotX, proj.pivotY, 1);
+  return { x: back.x - front.x, y: back.y - front.y };
+};
+
+// World x range of the game plane that reaches the screen, for culling.
+// Perspective shows more on the side turned away from the camera.
+export const visibleRange = (proj: Projection) => {
+  const edge = (u: number) => {
+    if (proj.focal === Infinity) return u / proj.cosYaw;
+    const towards = proj.cosYaw * proj.focal + u * proj.sinYaw * proj.cosPitch;
+    // Past the horizon: everything that way could be on screen
+    return towards > 0 ? u * proj.focal / towards : Math.sign(u) * CANVAS_WIDTH * 2;
+  };
+  return { start: proj.pivotX + edge(-CANVAS_WIDTH / 2), end: proj.pivotX + edge(CANVAS_WIDTH / 2) };
+};
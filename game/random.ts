@@ -0,0 +1,34 @@
+// --- Seeded Random ---
+// mulberry32: tiny 32-bit PRNG whose whole state is a single number, so a run
+// can be reproduced from its seed alone.
+export interface RandomStream {
+  rngState: number;
+}
+
+// Salt for the cosmetic stream, so it never mirrors the world stream.
+const FX_SALT = 0x9E3779B9;
+
+export const worldStream = (seed: number): RandomStream => ({ rngState: seed | 0 });
+export const fxStream = (seed: number): RandomStream => ({ rngState: (seed ^ FX_SALT) | 0 });
+
+export const nextRandom = (stream: RandomStream) => {
+  let t = (stream.rngState = (stream.rngState + 0x6D2B79F5) | 0);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+// Accepts a plain number or any string (hashed with FNV-1a) from the URL.
+export const parseSeed = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,1275 @@
+import {
+  CANVAS_WIDTH, CANVAS_HEIGHT, GROUND_HEIGHT, GROUND_Y, THEMES, Theme, BUMP_FRAMES, POPUP_FRAMES, BLOCK_SIZE
+} from './constants';
+import { CameraView, Projection, ScreenPoint, createProjection, depthLean, project, visibleRange } from './projection';
+import { SpriteBox, SpriteLook, drawSprite } from './sprites';
+import { Entity, GameState, Particle, PlayerState } from './types';
+
+// --- Drawing System ---
+// Characters, pickups and effects are billboards standing on the game plane;
+// blocks, platforms and the ground are boxes reaching back from it and
+// scenery stands further back on the ground. Drawing goes back to front:
+// ground tiles, scenery, boxes, then everything on the plane, which nothing
+// can ever be in front of.
+
+// How far things reach back from the game plane
+const BLOCK_DEPTH = BLOCK_SIZE;
+const GROUND_DEPTH = 150;
+// Where scenery stands on the ground
+const DECOR_DEPTH = 110;
+// Ground is drawn in tiles this wide so perspective stays right along it
+const GROUND_TILE = 50;
+// The ground's front face runs on below the screen for steep camera pitches
+const GROUND_BOTTOM = CANVAS_HEIGHT + GROUND_HEIGHT * 3;
+// Slack around the visible range before things are culled
+const CULL_MARGIN = 100;
+
+const BOX_TYPES = ['BLOCK', 'QUESTION_BLOCK', 'USED_BLOCK', 'BRICK', 'PLATFORM'];
+
+// Top face colour of the ground per theme
+const GROUND_TOPS: Record<string, string> = {
+  UNDERGROUND: '#004d70',
+  DESERT: '#c2a370',
+  CASTLE: '#555',
+};
+
+// `alpha` is how far (0..1) the render time sits between the previous and the
+// current simulation step; moving things are drawn interpolated between the two.
+export const draw = (
+  ctx: CanvasRenderingContext2D, state: GameState, view: CameraView, alpha = 1, quality: EffectsQuality = 'HIGH'
+) => {
+  const theme = THEMES[state.currentThemeIndex];
+  const camX = lerp(state.camera.prevX, state.camera.x, alpha);
+  const proj = createProjection(view, camX);
+  const visible = visibleRange(proj);
+  const viewStart = visible.start - CULL_MARGIN;
+  const viewEnd = visible.end + CULL_MARGIN;
+
+  // Sky
+  const gradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
+  gradient.addColorStop(0, theme.bg[0]);
+  gradient.addColorStop(1, theme.bg[1]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // Clouds scroll slower than the world and wrap around the screen; their
+  // shadows follow the camera angle
+  const lean = depthLean(proj);
+  const cloudSpan = CANVAS_WIDTH + CLOUD_MARGIN * 2;
+  state.clouds.forEach(c => {
+      const x = wrap(c.x - camX * c.parallax + CLOUD_MARGIN, cloudSpan) - CLOUD_MARGIN;
+      drawCloud(ctx, x, c.y, c.size, state.currentThemeIndex === 1, lean);
+  });
+
+  // Scenery, far to near
+  theme.parallax.forEach(layer => drawParallaxLayer(ctx, layer, camX, state.frameCount));
+
+  // Ground
+  const groundFaces = { color: theme.dirt, top: GROUND_TOPS[theme.name] ?? '#5a9c20' };
+  const tiles: DepthItem[] = [];
+  state.ground.forEach(seg => {
+      const end = Math.min(seg.x + seg.w, viewEnd);
+      for (let x = Math.max(seg.x, Math.floor(viewStart / GROUND_TILE) * GROUND_TILE); x < end;) {
+          const next = Math.min((Math.floor(x / GROUND_TILE) + 1) * GROUND_TILE, seg.x + seg.w);
+          const tile = { x, y: GROUND_Y, w: next - x, h: GROUND_BOTTOM - GROUND_Y };
+          tiles.push(boxItem(ctx, proj, tile, GROUND_DEPTH, { ...groundFaces, front: c => drawGroundTile(c, theme, tile) }));
+          x = next;
+      }
+  });
+  drawBackToFront(tiles);
+
+  // Decorations
+  const scenery: DepthItem[] = [];
+  state.decorations.forEach(d => {
+      if (d.x < viewStart || d.x > viewEnd) return;
+      scenery.push({
+          depth: project(proj, d.x, d.y, DECOR_DEPTH).depth,
+          paint: () => drawBillboard(ctx, proj, d.x, d.y, DECOR_DEPTH, () => drawDecoration(ctx, d.x, d.y, d.type))
+      });
+  });
+  drawBackToFront(scenery);
+
+  // Entities, skipping the ones well off screen
+  const boxes: DepthItem[] = [];
+  const standing: Entity[] = [];
+  state.entities.forEach(ent => {
+      if (!ent.active || ent.x + ent.w < viewStart || ent.x > viewEnd) return;
+      if (!BOX_TYPES.includes(ent.type)) {
+          standing.push(ent);
+          return;
+      }
+      // Bumped blocks hop up and settle back
+      const bump = ent.bumpTimer > 0 ? -Math.sin(Math.PI * ent.bumpTimer / BUMP_FRAMES) * 8 : 0;
+      const { ox, oy } = interpolation(ent, alpha);
+      boxes.push(boxItem(ctx, proj, ent, BLOCK_DEPTH, {
+          color: boxColor(ent, theme),
+          front: c => drawBoxFront(c, ent, theme)
+      }, ox, oy + bump));
+  });
+  drawBackToFront(boxes);
+
+  standing.forEach(ent => {
+      const { ox, oy } = interpolation(ent, alpha);
+      drawStanding(ctx, proj, ent, ox, oy, () => drawEntity(ctx, ent, state, theme));
+  });
+
+  drawParticles(ctx, proj, state.particles, alpha);
+  // Splashes go with the rain they come from
+  if (quality === 'HIGH') drawParticles(ctx, proj, state.splashes, alpha);
+
+  // Player
+  if (state.player.invulnerableTimer % 4 < 2) {
+      const { ox, oy } = interpolation(state.player, alpha);
+      drawStanding(ctx, proj, state.player, ox, oy, () => drawPlayer(ctx, state.player));
+  }
+
+  if (quality === 'HIGH') drawEffects(ctx, state, theme, proj, camX, alpha);
+
+  // Score popups fade out as they rise
+  ctx.font = 'bold 14px Roboto, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = '#000';
+  ctx.fillStyle = '#fff';
+  state.popups.forEach(popup => {
+      const at = project(proj, popup.x, popup.y, 0);
+      ctx.globalAlpha = Math.min(1, popup.life / (POPUP_FRAMES / 3));
+      ctx.strokeText(popup.text, at.x, at.y);
+      ctx.fillText(popup.text, at.x, at.y);
+  });
+  ctx.globalAlpha = 1;
+  ctx.lineWidth = 1;
+};
+
+// Everything on the game plane that isn't a box or the player.
+const drawEntity = (ctx: CanvasRenderingContext2D, ent: Entity, state: GameState, theme: Theme) => {
+    if (ent.type === 'MUSHROOM') {
+        drawMushroom(ctx, ent.x, ent.y);
+    } else if (ent.type === 'ONE_UP') {
+        drawMushroom(ctx, ent.x, ent.y, '#43A047');
+    } else if (ent.type === 'FIRE_FLOWER') {
+        drawFireFlower(ctx, ent.x, ent.y);
+    } else if (ent.type === 'STAR') {
+        drawStar(ctx, ent.x, ent.y, state.frameCount);
+    } else if (ent.type === 'COIN') {
+        drawCoin(ctx, ent.x, ent.y, ent.w, state.frameCount);
+    } else if (ent.type === 'FIREBALL') {
+        drawFireball(ctx, ent);
+    } else if (ent.type === 'GOAL') {
+        drawGoal(ctx, ent);
+    } else if (ent.type === 'CHECKPOINT' || ent.type === 'CHECKPOINT_REACHED') {
+        drawCheckpoint(ctx, ent, ent.type === 'CHECKPOINT_REACHED', theme);
+    } else {
+        drawEnemy(ctx, ent);
+    }
+};
+
+// Velocity is constant, so interpolation steps back along it.
+const drawParticles = (ctx: CanvasRenderingContext2D, proj: Projection, particles: Particle[], alpha: number) => {
+  particles.forEach(p => {
+      const at = project(proj, p.x - p.vx * (1 - alpha), p.y - p.vy * (1 - alpha), 0);
+      ctx.fillStyle = p.color;
+      ctx.fillRect(at.x, at.y, 5 * at.scale, 5 * at.scale);
+  });
+};
+
+// --- Interpolation Helpers ---
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// Drawers work in simulation coordinates; this is how far to shift them back
+// towards the previous step's position instead of rewriting every drawer.
+const interpolation = (body: { x: number; y: number; prevX: number; prevY: number }, alpha: number) => ({
+    ox: (body.prevX - body.x) * (1 - alpha),
+    oy: (body.prevY - body.y) * (1 - alpha)
+});
+
+// --- 3D Helpers ---
+type Box = { x: number; y: number; w: number; h: number };
+
+interface DepthItem {
+    depth: number;
+    paint: () => void;
+}
+
+interface BoxFaces {
+    color: string;
+    // Defaults to a lighter `color`
+    top?: string;
+    // Paints the front face in world coordinates, as in a flat 2D view
+    front: (ctx: CanvasRenderingContext2D) => void;
+}
+
+const drawBackToFront = (items: DepthItem[]) => {
+    items.sort((a, b) => b.depth - a.depth);
+    items.forEach(item => item.paint());
+};
+
+// Draws `paint` (world coordinates, as in a flat 2D view) scaled about the
+// anchor point so it faces the camera from `z` back.
+const drawBillboard = (
+    ctx: CanvasRenderingContext2D, proj: Projection, anchorX: number, anchorY: number, z: number,
+    paint: () => void, ox = 0, oy = 0
+) => {
+    const at = project(proj, anchorX + ox, anchorY + oy, z);
+    ctx.save();
+    ctx.transform(at.scale, 0, 0, at.scale, at.x - anchorX * at.scale, at.y - anchorY * at.scale);
+    paint();
+    ctx.restore();
+};
+
+// Billboard on the game plane, anchored at the feet.
+const drawStanding = (
+    ctx: CanvasRenderingContext2D, proj: Projection, body: Box, ox: number, oy: number, paint: () => void
+) => drawBillboard(ctx, proj, body.x + body.w / 2, body.y + body.h, 0, paint, ox, oy);
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, points: { x: number; y: number }[]) => {
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+    ctx.closePath();
+};
+
+// Twice the signed screen area; positive when the corners (listed clockwise
+// as seen from outside) face the camera.
+const facingArea = (points: { x: number; y: number }[]) => {
+    let area = 0;
+    points.forEach((a, i) => {
+        const b = points[(i + 1) % points.length];
+        area += a.x * b.y - b.x * a.y;
+    });
+    return area;
+};
+
+// A box from the game plane back to `depth`, shifted by `ox`/`oy` for
+// interpolation. Faces turned away from the camera are skipped; the front
+// face maps the flat painter onto its projected corners.
+const drawBox = (
+    ctx: CanvasRenderingContext2D, proj: Projection, box: Box, depth: number, faces: BoxFaces, ox = 0, oy = 0
+) => {
+    const left = box.x + ox;
+    const right = left + box.w;
+    const top = box.y + oy;
+    const bottom = top + box.h;
+    const tl = project(proj, left, top, 0);
+    const tr = project(proj, right, top, 0);
+    const br = project(proj, right, bottom, 0);
+    const bl = project(proj, left, bottom, 0);
+    const tlBack = project(proj, left, top, depth);
+    const trBack = project(proj, right, top, depth);
+    const brBack = project(proj, right, bottom, depth);
+    const blBack = project(proj, left, bottom, depth);
+
+    const face = (points: ScreenPoint[], fill: string, shade?: string) => {
+        if (facingArea(points) < 1) return;
+        tracePolygon(ctx, points);
+        ctx.fillStyle = fill;
+        ctx.fill();
+        if (shade) {
+            ctx.fillStyle = shade;
+            ctx.fill();
+        }
+        ctx.strokeStyle = "rgba(0,0,0,0.2)";
+        ctx.stroke();
+    };
+    ctx.lineWidth = 1;
+    face([tlBack, trBack, tr, tl], faces.top ?? faces.color, faces.top ? undefined : "rgba(255,255,255,0.2)");
+    face([bl, br, brBack, blBack], faces.color, "rgba(0,0,0,0.45)");
+    face([tlBack, tl, bl, blBack], faces.color, "rgba(0,0,0,0.3)");
+    face([tr, trBack, brBack, br], faces.color, "rgba(0,0,0,0.3)");
+
+    if (facingArea([tl, tr, br, bl]) < 1) return;
+    // Affine map from the flat front face onto the projected one
+    const a = (tr.x - tl.x) / box.w;
+    const b = (tr.y - tl.y) / box.w;
+    const c = (bl.x - tl.x) / box.h;
+    const d = (bl.y - tl.y) / box.h;
+    ctx.save();
+    ctx.transform(a, b, c, d, tl.x - a * box.x - c * box.y, tl.y - b * box.x - d * box.y);
+    faces.front(ctx);
+    ctx.restore();
+};
+
+const boxItem = (
+    ctx: CanvasRenderingContext2D, proj: Projection, box: Box, depth: number, faces: BoxFaces, ox = 0, oy = 0
+): DepthItem => ({
+    depth: project(proj, box.x + ox + box.w / 2, box.y + oy + box.h / 2, depth / 2).depth,
+    paint: () => drawBox(ctx, proj, box, depth, faces, ox, oy)
+});
+
+const boxColor = (ent: Entity, theme: Theme) => {
+    if (ent.type === 'QUESTION_BLOCK') return '#F8B800';
+    if (ent.type === 'USED_BLOCK') return '#8B6B4A';
+    if (ent.type === 'BRICK') return '#B5502B';
+    return theme.platform;
+};
+
+const drawBoxFront = (ctx: CanvasRenderingContext2D, ent: Entity, theme: Theme) => {
+    if (ent.type === 'BLOCK') {
+        drawBlock(ctx, ent.x, ent.y, ent.w, ent.h, theme.platform);
+    } else if (ent.type === 'QUESTION_BLOCK' || ent.type === 'USED_BLOCK') {
+        drawQuestionBlock(ctx, ent.x, ent.y, ent.w, ent.h, ent.type === 'USED_BLOCK');
+    } else if (ent.type === 'BRICK') {
+        drawBrick(ctx, ent.x, ent.y, ent.w, ent.h);
+    } else {
+        drawPlatform(ctx, ent, theme);
+    }
+};
+
+// --- Box Fronts ---
+// Flat drawers, also used for the editor's tool swatches.
+
+export const drawBlock = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y, w, h);
+    ctx.strokeStyle = '#000';
+    ctx.strokeRect(x, y, w, h);
+    ctx.fillStyle = "rgba(0,0,0,0.2)";
+    ctx.fillRect(x + 5, y + 5, w - 10, h - 10);
+};
+
+export const drawQuestionBlock = (
+    ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, used: boolean
+) => {
+    drawBlock(ctx, x, y, w, h, used ? '#8B6B4A' : '#F8B800');
+    // Rivets
+    ctx.fillStyle = used ? 'rgba(0,0,0,0.35)' : '#7A4A00';
+    [[4, 4], [w - 8, 4], [4, h - 8], [w - 8, h - 8]].forEach(([rx, ry]) => ctx.fillRect(x + rx, y + ry, 4, 4));
+    if (used) return;
+
+    ctx.font = `bold ${Math.round(h * 0.6)}px Roboto, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#7A4A00';
+    ctx.fillText('?', x + w / 2 + 2, y + h / 2 + 2);
+    ctx.fillStyle = '#FFF3C4';
+    ctx.fillText('?', x + w / 2, y + h / 2);
+    ctx.textBaseline = 'alphabetic';
+};
+
+export const drawBrick = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number) => {
+    ctx.fillStyle = '#B5502B';
+    ctx.fillRect(x, y, w, h);
+    // Mortar: four courses with staggered joints
+    ctx.strokeStyle = '#3B1A0E';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    const course = h / 4;
+    for (let row = 0; row < 4; row++) {
+        const top = y + row * course;
+        if (row > 0) {
+            ctx.moveTo(x, top);
+            ctx.lineTo(x + w, top);
+        }
+        const joint = x + (row % 2 === 0 ? w / 2 : w / 4);
+        ctx.moveTo(joint, top);
+        ctx.lineTo(joint, top + course);
+        if (row % 2 === 1) {
+            ctx.moveTo(joint + w / 2, top);
+            ctx.lineTo(joint + w / 2, top + course);
+        }
+    }
+    ctx.stroke();
+    ctx.strokeRect(x, y, w, h);
+    ctx.lineWidth = 1;
+};
+
+// Moving platforms: a thin slab of the theme's block colour with bolted ends.
+export const drawPlatform = (ctx: CanvasRenderingContext2D, ent: Entity, theme: Theme) => {
+    ctx.fillStyle = theme.platform;
+    ctx.fillRect(ent.x, ent.y, ent.w, ent.h);
+    ctx.strokeStyle = "rgba(0,0,0,0.4)";
+    ctx.strokeRect(ent.x, ent.y, ent.w, ent.h);
+    ctx.fillStyle = "rgba(0,0,0,0.35)";
+    ctx.fillRect(ent.x + 6, ent.y + ent.h / 2 - 3, 6, 6);
+    ctx.fillRect(ent.x + ent.w - 12, ent.y + ent.h / 2 - 3, 6, 6);
+};
+
+// Front of one ground tile: dirt under a strip of the theme's ground colour.
+const drawGroundTile = (ctx: CanvasRenderingContext2D, theme: Theme, tile: Box) => {
+    ctx.fillStyle = theme.dirt;
+    ctx.fillRect(tile.x, tile.y, tile.w, tile.h);
+    ctx.fillStyle = theme.ground;
+    ctx.fillRect(tile.x, tile.y, tile.w, 15);
+    ctx.fillStyle = "rgba(0,0,0,0.1)";
+    ctx.fillRect(tile.x, tile.y + 15, Math.min(48, tile.w), tile.h - 15);
+};
+
+// --- Entity Drawers ---
+
+// The run cycle is cached as this many poses
+const RUN_POSES = 16;
+
+const drawPlayer = (ctx: CanvasRenderingContext2D, p: PlayerState) => {
+    const pose = Math.round((p.runFrame % (Math.PI * 2)) / (Math.PI * 2) * RUN_POSES) % RUN_POSES;
+    const posed = { ...p, runFrame: pose * Math.PI * 2 / RUN_POSES };
+    const look: SpriteLook = {
+        key: `player:${p.power}:${p.starTimer > 0 ? starHue(p.starTimer) : ''}:${p.facingRight}:${p.isGrounded ? pose : 'jump'}`,
+        skin: `player_${p.power.toLowerCase()}`,
+        box: p,
+        facingRight: p.facingRight
+    };
+    drawSprite(ctx, look, c => paintPlayer(c, posed));
+};
+
+const paintPlayer = (ctx: CanvasRenderingContext2D, p: PlayerState) => {
+      const { x, y, w, h, facingRight, runFrame } = p;
+      const isBig = p.power !== 'SMALL';
+      const isJumping = !p.isGrounded;
+
+      ctx.save();
+      ctx.translate(x + w/2, y + h/2);
+      if (!facingRight) ctx.scale(-1, 1);
+      ctx.translate(-w/2, -h/2);
+
+      const bob = isJumping ? 0 : Math.sin(runFrame) * 3;
+      
+      const { shirt, overalls, hat: hatColor } = playerPalette(p);
+      const skin = "#FFCCB0";
+
+      ctx.fillStyle = overalls;
+      if (isJumping) {
+          ctx.fillRect(5, h - 20, 10, 20);
+          ctx.fillRect(w - 15, h - 25, 10, 20);
+      } else {
+          const stride = Math.sin(runFrame) * 10;
+          ctx.fillRect(5 - stride, h - 20, 10, 20);
+          ctx.fillRect(w - 15 + stride, h - 20, 10, 20);
+      }
+      
+      ctx.fillStyle = shirt;
+      ctx.fillRect(2, h - 45 + bob, w - 4, 25);
+      
+      ctx.fillStyle = overalls;
+      ctx.fillRect(8, h - 35 + bob, w - 16, 15);
+      
+      ctx.fillStyle = skin;
+      const headSize = isBig ? 24 : 18;
+      ctx.beginPath();
+      ctx.arc(w/2, 15 + bob, headSize/2, 0, Math.PI*2);
+      ctx.fill();
+      
+      ctx.fillStyle = hatColor;
+      ctx.beginPath();
+      ctx.rect(w/2 - headSize/2 - 2, 5 + bob, headSize + 4, 5);
+      ctx.arc(w/2, 10 + bob, headSize/2, Math.PI, 0);
+      ctx.fill();
+      
+      ctx.fillStyle = "#000";
+      ctx.fillRect(w/2 + 2, 18 + bob, 8, 3);
+
+      ctx.restore();
+};
+
+export const drawEnemy = (ctx: CanvasRenderingContext2D, ent: Entity) => {
+   const { look, ox, oy, paint } = enemySprite(ent);
+   drawSprite(ctx, look, paint, ox, oy);
+};
+
+// Cache key for an enemy's current look. Continuous wobbles (ghost bob,
+// Thwomp shake) become blit offsets and walk cycles are rounded to whole
+// pixels, so each type only ever needs a handful of sprites.
+const enemySprite = (ent: Entity) => {
+   const look: SpriteLook = { key: ent.type, skin: ent.type.toLowerCase(), box: ent, facingRight: ent.vx > 0 };
+   let ox = 0;
+   let oy = 0;
+   let paint = (c: CanvasRenderingContext2D) => paintEnemy(c, ent);
+
+   if (ent.type === 'GHOST') {
+       const shy = ent.aiMode === 'SHY';
+       oy = shy ? 0 : Math.sin(ent.frame * 2) * 3;
+       look.key = `GHOST:${shy}:${ent.dir ?? -1}`;
+       look.facingRight = ent.dir > 0;
+       paint = c => drawGhost(c, ent, 0);
+   } else if (ent.type === 'THWOMP') {
+       ox = ent.aiMode === 'WARN' ? (ent.aiTimer % 2 === 0 ? 2 : -2) : 0;
+       const looking = ent.aiMode !== 'IDLE' && ent.aiMode !== 'RISE';
+       look.key = `THWOMP:${looking}`;
+       paint = c => drawThwomp(c, ent, looking);
+   } else if (ent.type === 'BEETLE') {
+       const step = Math.round(Math.sin(ent.frame * 4) * 3);
+       look.key = `BEETLE:${step}:${ent.vx > 0}`;
+       paint = c => drawBeetle(c, ent, step);
+   } else if (ent.type === 'SHELL') {
+       const spin = ent.vx === 0 ? 0 : Math.floor((ent.frame * 40) % 12);
+       look.key = `SHELL:${ent.shellOf}:${spin}`;
+       look.skin = `shell_${(ent.shellOf ?? 'TURTLE').toLowerCase()}`;
+       paint = c => drawShell(c, ent, spin);
+   }
+   return { look, ox, oy, paint };
+};
+
+const paintEnemy = (ctx: CanvasRenderingContext2D, ent: Entity) => {
+      if (ent.type.includes('GOOMBA')) {
+          ctx.fillStyle = ent.type === 'GOOMBA_BLUE' ? '#004466' : '#8B4513';
+          ctx.beginPath();
+          ctx.moveTo(ent.x, ent.y + ent.h);
+          ctx.lineTo(ent.x, ent.y + 10);
+          ctx.quadraticCurveTo(ent.x + ent.w/2, ent.y - 10, ent.x + ent.w, ent.y + 10);
+          ctx.lineTo(ent.x + ent.w, ent.y + ent.h);
+          ctx.fill();
+          ctx.fillStyle = '#fff';
+          ctx.fillRect(ent.x + 5, ent.y + 10, 8, 10);
+          ctx.fillRect(ent.x + 20, ent.y + 10, 8, 10);
+          ctx.fillStyle = '#000';
+          ctx.fillRect(ent.x + 7, ent.y + 12, 3, 5);
+          ctx.fillRect(ent.x + 22, ent.y + 12, 3, 5);
+      } else if (ent.type.includes('TURTLE')) {
+          ctx.fillStyle = ent.type === 'TURTLE_RED' ? '#D32F2F' : '#32CD32';
+          ctx.beginPath();
+          ctx.ellipse(ent.x + ent.w/2, ent.y + ent.h/2 + 5, ent.w/2, ent.h/3, 0, 0, Math.PI*2);
+          ctx.fill();
+          ctx.fillStyle = '#FFD700';
+          ctx.beginPath(); ctx.arc(ent.x + 5, ent.y + 10, 8, 0, Math.PI*2); ctx.fill();
+      } else if (ent.type === 'CACTUS_MOVING') {
+          ctx.fillStyle = '#228B22';
+          ctx.fillRect(ent.x + 10, ent.y, 30, ent.h);
+          ctx.fillRect(ent.x, ent.y + 20, 10, 10);
+          ctx.fillRect(ent.x + 40, ent.y + 10, 10, 10);
+      } else {
+          ctx.fillStyle = 'red';
+          ctx.fillRect(ent.x, ent.y, ent.w, ent.h);
+      }
+};
+
+// Round body with a wavy hem; covers its face while being watched.
+const drawGhost = (ctx: CanvasRenderingContext2D, ent: Entity, bob: number) => {
+    const shy = ent.aiMode === 'SHY';
+    const cx = ent.x + ent.w / 2;
+    const top = ent.y + bob;
+    const r = ent.w / 2;
+    const dir = ent.dir ?? -1;
+
+    ctx.fillStyle = shy ? 'rgba(255,255,255,0.75)' : 'rgba(255,255,255,0.95)';
+    ctx.beginPath();
+    ctx.arc(cx, top + r, r, Math.PI, 0);
+    ctx.lineTo(cx + r, top + ent.h);
+    for (let i = 0; i < 4; i++) {
+        const x0 = cx + r - (i + 1) * (ent.w / 4);
+        ctx.quadraticCurveTo(x0 + ent.w / 8, top + ent.h - 8, x0, top + ent.h);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(0,0,0,0.25)';
+    ctx.stroke();
+
+    if (shy) {
+        // Hands over the eyes and a blush
+        ctx.fillStyle = '#fff';
+        ctx.strokeStyle = 'rgba(0,0,0,0.35)';
+        [-1, 1].forEach(side => {
+            ctx.beginPath();
+            ctx.ellipse(cx + side * 8, top + 16, 7, 5, 0, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+        });
+        ctx.fillStyle = 'rgba(255,120,150,0.6)';
+        ctx.fillRect(cx - 14, top + 24, 6, 3);
+        ctx.fillRect(cx + 8, top + 24, 6, 3);
+        return;
+    }
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(cx + dir * 4 - 7, top + 12, 4, 8);
+    ctx.fillRect(cx + dir * 4 + 3, top + 12, 4, 8);
+    // Grin with a tongue
+    ctx.beginPath();
+    ctx.arc(cx + dir * 3, top + 24, 7, 0, Math.PI);
+    ctx.fill();
+    ctx.fillStyle = '#E53935';
+    ctx.fillRect(cx + dir * 3 - 3, top + 27, 6, 3);
+};
+
+// Spiked stone slab with a scowl; shakes before it drops.
+const drawThwomp = (ctx: CanvasRenderingContext2D, ent: Entity, looking: boolean) => {
+    const x = ent.x;
+    const y = ent.y;
+    const { w, h } = ent;
+
+    // Spikes around the rim
+    ctx.fillStyle = '#6E6E6E';
+    ctx.beginPath();
+    for (let i = 0; i < 4; i++) {
+        const sx = x + 7 + i * (w - 14) / 3;
+        ctx.moveTo(sx - 6, y); ctx.lineTo(sx, y - 8); ctx.lineTo(sx + 6, y);
+        ctx.moveTo(sx - 6, y + h); ctx.lineTo(sx, y + h + 8); ctx.lineTo(sx + 6, y + h);
+        const sy = y + 7 + i * (h - 14) / 3;
+        ctx.moveTo(x, sy - 6); ctx.lineTo(x - 8, sy); ctx.lineTo(x, sy + 6);
+        ctx.moveTo(x + w, sy - 6); ctx.lineTo(x + w + 8, sy); ctx.lineTo(x + w, sy + 6);
+    }
+    ctx.fill();
+
+    ctx.fillStyle = '#9E9E9E';
+    ctx.fillRect(x, y, w, h);
+    ctx.strokeStyle = '#424242';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, w, h);
+    ctx.lineWidth = 1;
+
+    // Eyes look down at whatever is about to be flattened
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(x + 10, y + 18, 14, 14);
+    ctx.fillRect(x + w - 24, y + 18, 14, 14);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(x + 14, y + (looking ? 25 : 21), 6, 6);
+    ctx.fillRect(x + w - 20, y + (looking ? 25 : 21), 6, 6);
+    // Angry brows
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(x + 8, y + 12); ctx.lineTo(x + 26, y + 18);
+    ctx.moveTo(x + w - 8, y + 12); ctx.lineTo(x + w - 26, y + 18);
+    // Gritted teeth
+    ctx.moveTo(x + 14, y + h - 14); ctx.lineTo(x + w - 14, y + h - 14);
+    ctx.stroke();
+    ctx.lineWidth = 1;
+};
+
+// Dark domed shell over scurrying feet.
+const drawBeetle = (ctx: CanvasRenderingContext2D, ent: Entity, step: number) => {
+    const { x, y, w, h } = ent;
+
+    ctx.fillStyle = '#F5C16C';
+    ctx.fillRect(x + 6 + step, y + h - 6, 10, 6);
+    ctx.fillRect(x + w - 16 - step, y + h - 6, 10, 6);
+
+    ctx.fillStyle = '#1A237E';
+    ctx.beginPath();
+    ctx.ellipse(x + w / 2, y + h - 6, w / 2, h - 6, 0, Math.PI, 0);
+    ctx.fill();
+    // Shell ridges and shine
+    ctx.strokeStyle = '#5C6BC0';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x + w / 2, y + 2); ctx.lineTo(x + w / 2, y + h - 6);
+    ctx.moveTo(x + 4, y + h - 12); ctx.lineTo(x + w - 4, y + h - 12);
+    ctx.stroke();
+    ctx.lineWidth = 1;
+    ctx.fillStyle = 'rgba(255,255,255,0.35)';
+    ctx.beginPath();
+    ctx.ellipse(x + w / 2 - 8, y + 9, 5, 3, -0.5, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Head peeking out in the walking direction
+    const headX = ent.vx > 0 ? x + w - 4 : x - 4;
+    ctx.fillStyle = '#F5C16C';
+    ctx.fillRect(headX, y + h - 14, 8, 8);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(headX + (ent.vx > 0 ? 4 : 1), y + h - 12, 3, 3);
+};
+
+// Empty turtle shell; the rim pattern rolls while it slides.
+const drawShell = (ctx: CanvasRenderingContext2D, ent: Entity, spin: number) => {
+    const { x, y, w, h } = ent;
+    const cx = x + w / 2;
+    ctx.fillStyle = ent.shellOf === 'TURTLE_RED' ? '#D32F2F' : '#32CD32';
+    ctx.beginPath();
+    ctx.ellipse(cx, y + h - 8, w / 2, h - 8, 0, Math.PI, 0);
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(0,0,0,0.4)';
+    ctx.stroke();
+
+    // Hex plates on the dome
+    ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(cx - 8, y + 6); ctx.lineTo(cx - 10, y + h - 10);
+    ctx.moveTo(cx + 8, y + 6); ctx.lineTo(cx + 10, y + h - 10);
+    ctx.stroke();
+    ctx.lineWidth = 1;
+
+    // Rim, with notches that scroll when the shell spins
+    ctx.fillStyle = '#FFF8E1';
+    ctx.fillRect(x, y + h - 10, w, 6);
+    ctx.fillStyle = '#795548';
+    for (let nx = x - 12 + spin; nx < x + w; nx += 12) {
+        if (nx >= x && nx + 4 <= x + w) ctx.fillRect(nx, y + h - 10, 4, 6);
+    }
+    ctx.fillStyle = '#FFF8E1';
+    ctx.fillRect(x + 4, y + h - 4, w - 8, 4);
+};
+
+// Pennant on a short pole: grey until touched, then raised in the theme colour.
+const drawCheckpoint = (ctx: CanvasRenderingContext2D, ent: Entity, reached: boolean, theme: Theme) => {
+    const poleX = ent.x + 4;
+    ctx.fillStyle = '#ddd';
+    ctx.fillRect(poleX, ent.y, 4, ent.h);
+    ctx.fillStyle = '#555';
+    ctx.fillRect(poleX - 4, ent.y + ent.h - 6, 12, 6);
+    ctx.beginPath();
+    ctx.arc(poleX + 2, ent.y, 4, 0, Math.PI * 2);
+    ctx.fill();
+
+    const flagY = reached ? ent.y + 4 : ent.y + ent.h - 40;
+    ctx.fillStyle = reached ? theme.ground : '#9E9E9E';
+    ctx.beginPath();
+    ctx.moveTo(poleX + 4, flagY);
+    ctx.lineTo(poleX + 30, flagY + 10);
+    ctx.lineTo(poleX + 4, flagY + 20);
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(0,0,0,0.4)';
+    ctx.stroke();
+};
+
+export const drawGoal = (ctx: CanvasRenderingContext2D, ent: Entity) => {
+    const poleX = ent.x + ent.w / 2;
+    const wave = Math.sin(ent.frame * 3) * 4;
+
+    // Pole and ball
+    ctx.fillStyle = '#9E9E9E';
+    ctx.fillRect(poleX - 3, ent.y, 6, ent.h);
+    ctx.fillStyle = '#32CD32';
+    ctx.beginPath(); ctx.arc(poleX, ent.y, 8, 0, Math.PI*2); ctx.fill();
+
+    // Flag
+    ctx.fillStyle = '#fff';
+    ctx.beginPath();
+    ctx.moveTo(poleX, ent.y + 15);
+    ctx.lineTo(poleX - 45, ent.y + 30 + wave);
+    ctx.lineTo(poleX, ent.y + 45);
+    ctx.fill();
+    ctx.fillStyle = '#32CD32';
+    ctx.beginPath(); ctx.arc(poleX - 15, ent.y + 30 + wave / 2, 5, 0, Math.PI*2); ctx.fill();
+
+    // Base block
+    ctx.fillStyle = '#795548';
+    ctx.fillRect(poleX - 15, GROUND_Y - 20, 30, 20);
+};
+
+// The star's rainbow steps through a few hues rather than sweeping, since
+// every hue is another set of cached player sprites
+const STAR_HUES = 6;
+const STAR_HUE_FRAMES = 3;
+
+const starHue = (starTimer: number) => (Math.floor(starTimer / STAR_HUE_FRAMES) % STAR_HUES) * (360 / STAR_HUES);
+
+// Fire power swaps to white overalls; a star cycles through the rainbow.
+const playerPalette = (p: PlayerState) => {
+    if (p.starTimer > 0) {
+        const hue = starHue(p.starTimer);
+        return {
+            shirt: `hsl(${hue}, 90%, 55%)`,
+            overalls: `hsl(${(hue + 120) % 360}, 90%, 45%)`,
+            hat: `hsl(${hue}, 90%, 55%)`
+        };
+    }
+    if (p.power === 'FIRE') return { shirt: '#D32F2F', overalls: '#FAFAFA', hat: '#FAFAFA' };
+    return { shirt: '#D32F2F', overalls: '#1976D2', hat: '#D32F2F' };
+};
+
+export const drawMushroom = (
+    ctx: CanvasRenderingContext2D, x: number, y: number, cap = '#E52521'
+) => {
+    const look: SpriteLook = {
+        key: `mushroom:${cap}`,
+        skin: cap === '#E52521' ? 'mushroom' : 'one_up',
+        box: { x, y, w: 30, h: 30 },
+        facingRight: true
+    };
+    const paint = (ctx: CanvasRenderingContext2D) => {
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(x + 5, y + 15, 20, 15);
+        ctx.fillStyle = cap;
+        ctx.beginPath();
+        ctx.arc(x + 15, y + 15, 16, Math.PI, 0);
+        ctx.fill();
+        ctx.fillStyle = '#fff';
+        ctx.beginPath(); ctx.arc(x + 10, y + 8, 3, 0, Math.PI*2); ctx.fill();
+        ctx.beginPath(); ctx.arc(x + 20, y + 12, 3, 0, Math.PI*2); ctx.fill();
+    };
+    drawSprite(ctx, look, paint);
+};
+
+export const drawFireFlower = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
+    // Stem and leaves
+    ctx.fillStyle = '#2E7D32';
+    ctx.fillRect(x + 13, y + 16, 4, 14);
+    ctx.beginPath();
+    ctx.ellipse(x + 8, y + 24, 6, 3, -0.4, 0, Math.PI * 2);
+    ctx.ellipse(x + 22, y + 24, 6, 3, 0.4, 0, Math.PI * 2);
+    ctx.fill();
+    // Bloom: orange ring around a white-and-yellow eye
+    ctx.fillStyle = '#FF7043';
+    ctx.beginPath();
+    ctx.ellipse(x + 15, y + 9, 14, 9, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#FFEB3B';
+    ctx.beginPath();
+    ctx.ellipse(x + 15, y + 9, 9, 6, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#fff';
+    ctx.beginPath();
+    ctx.ellipse(x + 15, y + 9, 5, 3, 0, 0, Math.PI * 2);
+    ctx.fill();
+};
+
+export const drawStar = (ctx: CanvasRenderingContext2D, x: number, y: number, frame: number) => {
+    const cx = x + 15;
+    const cy = y + 15;
+    ctx.fillStyle = frame % 16 < 8 ? '#FFD700' : '#FFF176';
+    ctx.beginPath();
+    for (let i = 0; i < 10; i++) {
+        const r = i % 2 === 0 ? 15 : 7;
+        const a = -Math.PI / 2 + i * Math.PI / 5;
+        ctx.lineTo(cx + Math.cos(a) * r, cy + Math.sin(a) * r);
+    }
+    ctx.closePath();
+    ctx.fill();
+    ctx.strokeStyle = '#B8860B';
+    ctx.stroke();
+    ctx.fillStyle = '#000';
+    ctx.fillRect(cx - 5, cy - 3, 3, 6);
+    ctx.fillRect(cx + 2, cy - 3, 3, 6);
+};
+
+// Spins by squashing its width; `size` is the full coin diameter.
+export const drawCoin = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, frame: number) => {
+    const r = size / 2;
+    const squash = Math.max(0.15, Math.abs(Math.cos(frame * 0.08)));
+    ctx.fillStyle = '#FFC107';
+    ctx.strokeStyle = '#B8860B';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.ellipse(x + r, y + r, r * squash, r, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#FFF176';
+    ctx.fillRect(x + r - 1.5 * squash, y + r * 0.5, 3 * squash, r);
+};
+
+const drawFireball = (ctx: CanvasRenderingContext2D, ent: Entity) => {
+    const r = ent.w / 2;
+    const cx = ent.x + r;
+    const cy = ent.y + r;
+    ctx.fillStyle = '#FF5722';
+    ctx.beginPath();
+    ctx.arc(cx, cy, r, 0, Math.PI * 2);
+    ctx.fill();
+    // Spinning hot core
+    ctx.fillStyle = '#FFEB3B';
+    ctx.beginPath();
+    ctx.arc(cx + Math.cos(ent.frame * 3) * 2, cy + Math.sin(ent.frame * 3) * 2, r / 2, 0, Math.PI * 2);
+    ctx.fill();
+};
+
+// Area each decoration paints, relative to its anchor on the ground
+const DECOR_BOXES: Record<string, SpriteBox> = {
+    HILL: { x: -80, y: -80, w: 160, h: 80 },
+    PYRAMID: { x: 0, y: -80, w: 100, h: 80 },
+    CRYSTAL: { x: 0, y: -40, w: 40, h: 50 },
+};
+
+export const drawDecoration = (ctx: CanvasRenderingContext2D, x: number, y: number, type: string) => {
+    const paint = (c: CanvasRenderingContext2D) => paintDecoration(c, x, y, type);
+    // Chains hang from the top of the screen, so their size depends on where they are
+    const box = DECOR_BOXES[type];
+    if (!box) {
+        paint(ctx);
+        return;
+    }
+    const look: SpriteLook = {
+        key: `decor:${type}`,
+        skin: type.toLowerCase(),
+        box: { x: x + box.x, y: y + box.y, w: box.w, h: box.h },
+        facingRight: true
+    };
+    drawSprite(ctx, look, paint);
+};
+
+const paintDecoration = (ctx: CanvasRenderingContext2D, x: number, y: number, type: string) => {
+        if (type === 'HILL') {
+            ctx.fillStyle = "rgba(46, 139, 87, 0.6)";
+            ctx.beginPath(); ctx.arc(x, y, 80, Math.PI, 0); ctx.fill();
+        } else if (type === 'PYRAMID') {
+            ctx.fillStyle = "rgba(210, 180, 140, 0.6)";
+            ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + 100, y); ctx.lineTo(x + 50, y - 80); ctx.fill();
+        } else if (type === 'CRYSTAL') {
+            ctx.fillStyle = "rgba(100, 200, 255, 0.3)";
+            ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + 20, y - 40); ctx.lineTo(x + 40, y); ctx.lineTo(x + 20, y + 10); ctx.fill();
+        } else if (type === 'CHAIN') {
+            ctx.strokeStyle = '#555';
+            ctx.lineWidth = 4;
+            ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, y - 100); ctx.stroke();
+        }
+};
+
+// How far behind its cloud a shadow falls, in depth
+const CLOUD_SHADOW_DEPTH = 50;
+// Clouds wrap this far past either side of the screen
+const CLOUD_MARGIN = 100;
+
+const drawCloud = (
+  ctx: CanvasRenderingContext2D, x: number, y: number, size: number, dark: boolean, lean: { x: number; y: number }
+) => {
+  ctx.fillStyle = dark ? "rgba(100,100,110,0.5)" : "rgba(255, 255, 255, 0.7)";
+  
+  const d = (ox: number, oy: number) => {
+      ctx.save();
+      ctx.translate(x + ox, y + oy);
+      ctx.scale(size, size);
+      ctx.beginPath();
+      ctx.arc(0, 0, 30, 0, Math.PI * 2);
+      ctx.arc(40, 0, 40, 0, Math.PI * 2);
+      ctx.arc(80, 0, 30, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+  }
+
+  if(lean.x !== 0 || lean.y !== 0) {
+      ctx.fillStyle = "rgba(0,0,0,0.1)"; // Deep shadow
+      // Clouds are high up, so shadow is far
+      d(lean.x * CLOUD_SHADOW_DEPTH, lean.y * CLOUD_SHADOW_DEPTH + 40);
+      ctx.fillStyle = dark ? "rgba(100,100,110,0.5)" : "rgba(255, 255, 255, 0.7)";
+      d(0,0);
+  } else {
+      d(0,0);
+  }
+};
+
+// --- Parallax Layers ---
+// Procedural scenery behind the world, one drawer per THEMES `parallax`
+// entry. Drawers repeat a motif along the screen; the motif index seeds its
+// variations so a layer looks the same every time it scrolls back into view.
+
+type ParallaxLayer = Theme['parallax'][number];
+type ParallaxDrawer = (ctx: CanvasRenderingContext2D, layer: ParallaxLayer, scroll: number, frame: number) => void;
+
+// Stable pseudo-random 0..1 for motif `i`; `salt` picks an independent value
+const motifNoise = (i: number, salt = 0) => {
+    const n = Math.sin(i * 12.9898 + salt * 78.233) * 43758.5453;
+    return n - Math.floor(n);
+};
+
+// Calls `paint` for every motif `period` apart that can reach the screen,
+// with its screen x and index.
+const repeatAcross = (scroll: number, period: number, paint: (x: number, i: number) => void) => {
+    const first = Math.floor(scroll / period) - 1;
+    const last = Math.ceil((scroll + CANVAS_WIDTH) / period) + 1;
+    for (let i = first; i <= last; i++) paint(i * period - scroll, i);
+};
+
+const wrap = (value: number, span: number) => ((value % span) + span) % span;
+
+// Wall torches, which also cast light in dark themes
+const TORCH_PERIOD = 240;
+const TORCH_HEIGHT = 150;
+
+const PARALLAX_DRAWERS: Record<string, ParallaxDrawer> = {
+    MOUNTAINS: (ctx, layer, scroll) => repeatAcross(scroll, 260, (x, i) => {
+        const h = 120 + motifNoise(i) * 90;
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.moveTo(x - 170, layer.y);
+        ctx.lineTo(x, layer.y - h);
+        ctx.lineTo(x + 170, layer.y);
+        ctx.fill();
+        // Snow cap
+        ctx.fillStyle = "rgba(255,255,255,0.6)";
+        ctx.beginPath();
+        ctx.moveTo(x - 35, layer.y - h + 40);
+        ctx.lineTo(x, layer.y - h);
+        ctx.lineTo(x + 35, layer.y - h + 40);
+        ctx.fill();
+    }),
+    HILLS: (ctx, layer, scroll) => repeatAcross(scroll, 180, (x, i) => {
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.arc(x, layer.y, 60 + motifNoise(i) * 50, Math.PI, 0);
+        ctx.fill();
+    }),
+    BUSHES: (ctx, layer, scroll) => repeatAcross(scroll, 140, (x, i) => {
+        const r = 16 + motifNoise(i) * 10;
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.arc(x - r, layer.y, r, Math.PI, 0);
+        ctx.arc(x, layer.y - r * 0.4, r * 1.2, Math.PI, 0);
+        ctx.arc(x + r, layer.y, r, Math.PI, 0);
+        ctx.fill();
+    }),
+    STALACTITES: (ctx, layer, scroll) => repeatAcross(scroll, 60, (x, i) => {
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.moveTo(x - 18, layer.y);
+        ctx.lineTo(x, layer.y + 40 + motifNoise(i) * 90);
+        ctx.lineTo(x + 18, layer.y);
+        ctx.fill();
+    }),
+    CRYSTALS: (ctx, layer, scroll) => repeatAcross(scroll, 120, (x, i) => {
+        const h = 50 + motifNoise(i) * 70;
+        const lean = (motifNoise(i, 1) - 0.5) * 30;
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.moveTo(x - 15, layer.y);
+        ctx.lineTo(x + lean, layer.y - h);
+        ctx.lineTo(x + 15, layer.y);
+        ctx.fill();
+    }),
+    ROCKS: (ctx, layer, scroll) => repeatAcross(scroll, 160, (x, i) => {
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.ellipse(x, layer.y, 40 + motifNoise(i) * 30, 20 + motifNoise(i, 1) * 25, 0, Math.PI, 0);
+        ctx.fill();
+    }),
+    // One continuous swell rather than separate motifs
+    DUNES: (ctx, layer, scroll) => {
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.moveTo(0, layer.y);
+        for (let x = 0; x <= CANVAS_WIDTH; x += 20) {
+            const t = (x + scroll) / 320 * Math.PI * 2;
+            ctx.lineTo(x, layer.y - 60 - Math.sin(t) * 30 - Math.sin(t * 2.3) * 12);
+        }
+        ctx.lineTo(CANVAS_WIDTH, layer.y);
+        ctx.fill();
+    },
+    PYRAMIDS: (ctx, layer, scroll) => repeatAcross(scroll, 300, (x, i) => {
+        if (motifNoise(i) < 0.3) return;
+        const half = 80 + motifNoise(i, 1) * 40;
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.moveTo(x - half, layer.y);
+        ctx.lineTo(x, layer.y - half * 0.9);
+        ctx.lineTo(x + half, layer.y);
+        ctx.fill();
+        // Shaded side
+        ctx.fillStyle = "rgba(0,0,0,0.15)";
+        ctx.beginPath();
+        ctx.moveTo(x, layer.y - half * 0.9);
+        ctx.lineTo(x + half, layer.y);
+        ctx.lineTo(x + half * 0.3, layer.y);
+        ctx.fill();
+    }),
+    CACTI: (ctx, layer, scroll) => repeatAcross(scroll, 200, (x, i) => {
+        if (motifNoise(i) < 0.4) return;
+        const h = 50 + motifNoise(i, 1) * 40;
+        ctx.fillStyle = layer.color;
+        ctx.fillRect(x - 6, layer.y - h, 12, h);
+        ctx.fillRect(x - 20, layer.y - h * 0.7, 8, h * 0.35);
+        ctx.fillRect(x - 20, layer.y - h * 0.45, 20, 8);
+        ctx.fillRect(x + 12, layer.y - h * 0.85, 8, h * 0.35);
+        ctx.fillRect(x, layer.y - h * 0.6, 20, 8);
+    }),
+    TOWERS: (ctx, layer, scroll) => repeatAcross(scroll, 220, (x, i) => {
+        const w = 50 + motifNoise(i) * 30;
+        const h = 150 + motifNoise(i, 1) * 120;
+        const top = layer.y - h;
+        ctx.fillStyle = layer.color;
+        ctx.fillRect(x - w / 2, top, w, h);
+        // Battlements
+        for (let bx = x - w / 2; bx < x + w / 2; bx += 16) ctx.fillRect(bx, top - 10, 9, 10);
+        ctx.fillStyle = "rgba(0,0,0,0.4)";
+        ctx.fillRect(x - 3, top + 30, 6, 16);
+    }),
+    PILLARS: (ctx, layer, scroll) => repeatAcross(scroll, 160, (x) => {
+        ctx.fillStyle = layer.color;
+        ctx.fillRect(x - 15, 0, 30, layer.y);
+        ctx.fillRect(x - 22, layer.y - 16, 44, 16);
+        ctx.fillRect(x - 22, 40, 44, 12);
+    }),
+    // Wall torches; the flame flickers with the frame count
+    TORCHES: (ctx, layer, scroll, frame) => repeatAcross(scroll, TORCH_PERIOD, (x, i) => {
+        const y = layer.y - TORCH_HEIGHT;
+        const flicker = Math.sin(frame * 0.3 + i * 1.7) * 3;
+        ctx.fillStyle = '#3b2a1a';
+        ctx.fillRect(x - 3, y, 6, 24);
+        ctx.fillStyle = "rgba(255,150,50,0.15)";
+        ctx.beginPath(); ctx.arc(x, y - 6, 26 + flicker, 0, Math.PI * 2); ctx.fill();
+        ctx.fillStyle = layer.color;
+        ctx.beginPath();
+        ctx.moveTo(x - 7, y);
+        ctx.quadraticCurveTo(x, y - 26 - flicker, x + 7, y);
+        ctx.fill();
+    }),
+};
+
+const drawParallaxLayer = (ctx: CanvasRenderingContext2D, layer: ParallaxLayer, camX: number, frame: number) => {
+    PARALLAX_DRAWERS[layer.drawer]?.(ctx, layer, camX * layer.factor, frame);
+};
+
+// --- Lighting & Weather ---
+// Screen-space effects over the finished frame, all skipped at LOW quality.
+// Dark themes cover the screen with a shade on an offscreen canvas and cut
+// soft holes in it around light sources; outdoor themes get weather and a
+// sky tint that runs through a day over distance.
+
+export type EffectsQuality = 'HIGH' | 'LOW';
+
+// Distance covered by one day, noon to noon. Not a multiple of a full theme
+// cycle, so each theme comes round at a different time of day.
+const DAY_LENGTH = 10000;
+const RAIN_DROPS = 120;
+const SAND_GRAINS = 150;
+// Air shimmers in this band above the ground
+const HAZE_HEIGHT = 140;
+const PLAYER_LIGHT = 150;
+const FIREBALL_LIGHT = 70;
+const CRYSTAL_LIGHT = 90;
+const TORCH_LIGHT = 110;
+
+interface Light {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+let lightCanvas: HTMLCanvasElement | null = null;
+
+const drawEffects = (
+    ctx: CanvasRenderingContext2D, state: GameState, theme: Theme, proj: Projection, camX: number, alpha: number
+) => {
+    const { effects } = theme;
+    if (effects.heatHaze) drawHeatHaze(ctx, state.frameCount);
+    if (state.weather === 'RAIN') drawRain(ctx, camX, state.frameCount);
+    if (state.weather === 'SANDSTORM') drawSandstorm(ctx, camX, state.frameCount);
+    if (effects.dayNight) drawDayNightTint(ctx, camX);
+    if (effects.darkness > 0) drawDarkness(ctx, effects.darkness, collectLights(state, theme, proj, camX, alpha));
+};
+
+const collectLights = (state: GameState, theme: Theme, proj: Projection, camX: number, alpha: number) => {
+    const lights: Light[] = [];
+    const addLight = (x: number, y: number, z: number, radius: number) => {
+        const at = project(proj, x, y, z);
+        lights.push({ x: at.x, y: at.y, radius: radius * at.scale });
+    };
+    const p = state.player;
+    const { ox, oy } = interpolation(p, alpha);
+    addLight(p.x + p.w / 2 + ox, p.y + p.h / 2 + oy, 0, PLAYER_LIGHT);
+    state.entities.forEach(ent => {
+        if (!ent.active || ent.type !== 'FIREBALL') return;
+        const shift = interpolation(ent, alpha);
+        addLight(ent.x + ent.w / 2 + shift.ox, ent.y + ent.h / 2 + shift.oy, 0, FIREBALL_LIGHT);
+    });
+    state.decorations.forEach(d => {
+        if (d.type === 'CRYSTAL') addLight(d.x + 20, d.y - 15, DECOR_DEPTH, CRYSTAL_LIGHT);
+    });
+    theme.parallax.forEach(layer => {
+        if (layer.drawer !== 'TORCHES') return;
+        repeatAcross(camX * layer.factor, TORCH_PERIOD, x => {
+            lights.push({ x, y: layer.y - TORCH_HEIGHT - 6, radius: TORCH_LIGHT });
+        });
+    });
+    return lights;
+};
+
+const drawDarkness = (ctx: CanvasRenderingContext2D, darkness: number, lights: Light[]) => {
+    if (!lightCanvas) {
+        lightCanvas = document.createElement('canvas');
+        lightCanvas.width = CANVAS_WIDTH;
+        lightCanvas.height = CANVAS_HEIGHT;
+    }
+    const shade = lightCanvas.getContext('2d');
+    shade.globalCompositeOperation = 'copy';
+    shade.fillStyle = `rgba(5,5,15,${darkness})`;
+    shade.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    // Erase the shade where light falls, fading out towards each radius
+    shade.globalCompositeOperation = 'destination-out';
+    lights.forEach(light => {
+        const glow = shade.createRadialGradient(light.x, light.y, 0, light.x, light.y, light.radius);
+        glow.addColorStop(0, 'rgba(0,0,0,1)');
+        glow.addColorStop(1, 'rgba(0,0,0,0)');
+        shade.fillStyle = glow;
+        shade.fillRect(light.x - light.radius, light.y - light.radius, light.radius * 2, light.radius * 2);
+    });
+    ctx.drawImage(lightCanvas, 0, 0);
+
+    // Warm the lit areas a little
+    ctx.save();
+    ctx.globalCompositeOperation = 'lighter';
+    lights.forEach(light => {
+        const warm = ctx.createRadialGradient(light.x, light.y, 0, light.x, light.y, light.radius * 0.6);
+        warm.addColorStop(0, 'rgba(255,170,80,0.15)');
+        warm.addColorStop(1, 'rgba(255,170,80,0)');
+        ctx.fillStyle = warm;
+        ctx.fillRect(light.x - light.radius, light.y - light.radius, light.radius * 2, light.radius * 2);
+    });
+    ctx.restore();
+};
+
+// Dusk glows orange, night sinks into blue.
+const drawDayNightTint = (ctx: CanvasRenderingContext2D, camX: number) => {
+    const sun = Math.cos(camX / DAY_LENGTH * Math.PI * 2);
+    const night = Math.max(0, -sun);
+    const dusk = 1 - Math.abs(sun);
+    ctx.fillStyle = `rgba(255,110,40,${0.12 * dusk})`;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillStyle = `rgba(10,20,70,${0.45 * night})`;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+};
+
+const drawRain = (ctx: CanvasRenderingContext2D, camX: number, frame: number) => {
+    ctx.fillStyle = "rgba(40,50,70,0.15)";
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.strokeStyle = "rgba(200,220,255,0.5)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 0; i < RAIN_DROPS; i++) {
+        const x = wrap(motifNoise(i) * CANVAS_WIDTH - camX + frame * 2, CANVAS_WIDTH);
+        const y = wrap(motifNoise(i, 1) * CANVAS_HEIGHT + frame * (10 + motifNoise(i, 2) * 4), CANVAS_HEIGHT);
+        ctx.moveTo(x, y);
+        ctx.lineTo(x - 3, y + 12);
+    }
+    ctx.stroke();
+};
+
+const drawSandstorm = (ctx: CanvasRenderingContext2D, camX: number, frame: number) => {
+    ctx.fillStyle = "rgba(214,170,100,0.2)";
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillStyle = "rgba(240,210,150,0.7)";
+    for (let i = 0; i < SAND_GRAINS; i++) {
+        const x = wrap(motifNoise(i) * CANVAS_WIDTH - camX * 1.2 - frame * (8 + motifNoise(i, 1) * 6), CANVAS_WIDTH);
+        const y = wrap(motifNoise(i, 2) * CANVAS_HEIGHT + Math.sin(frame * 0.05 + i) * 10, CANVAS_HEIGHT);
+        ctx.fillRect(x, y, 3, 1);
+    }
+};
+
+// Redraws the band above the ground in thin strips nudged sideways.
+const drawHeatHaze = (ctx: CanvasRenderingContext2D, frame: number) => {
+    const top = GROUND_Y - HAZE_HEIGHT;
+    for (let y = top; y < GROUND_Y; y += 4) {
+        // Strongest near the hot ground
+        const shift = Math.sin(y * 0.15 + frame * 0.12) * 1.5 * (y - top) / HAZE_HEIGHT;
+        ctx.drawImage(ctx.canvas, 0, y, CANVAS_WIDTH, 4, shift, y, CANVAS_WIDTH, 4);
+    }
+};
+
+// --- Editor Overlay ---
+export interface EditorOverlay {
+  hover: { x: number; y: number; w: number; h: number } | null;
+  erase: boolean;
+  worldEnd: number;
+}
+
+// Tile grid, level bounds and the cursor box, drawn on top of a normal frame.
+export const drawEditorOverlay = (ctx: CanvasRenderingContext2D, camX: number, overlay: EditorOverlay) => {
+  ctx.save();
+  ctx.translate(-camX, 0);
+
+  ctx.strokeStyle = "rgba(255,255,255,0.25)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = Math.floor(camX / 50) * 50; x < camX + CANVAS_WIDTH; x += 50) {
+      ctx.moveTo(x + 0.5, 0);
+      ctx.lineTo(x + 0.5, CANVAS_HEIGHT);
+  }
+  for (let y = GROUND_Y; y > 0; y -= 50) {
+      ctx.moveTo(camX, y + 0.5);
+      ctx.lineTo(camX + CANVAS_WIDTH, y + 0.5);
+  }
+  ctx.stroke();
+
+  // Past the end of the level
+  if (overlay.worldEnd < camX + CANVAS_WIDTH) {
+      ctx.fillStyle = "rgba(0,0,0,0.5)";
+      ctx.fillRect(overlay.worldEnd, 0, camX + CANVAS_WIDTH - overlay.worldEnd, CANVAS_HEIGHT);
+  }
+
+  if (overlay.hover) {
+      const { x, y, w, h } = overlay.hover;
+      ctx.setLineDash([6, 4]);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = overlay.erase ? '#ff4444' : '#ffd700';
+      ctx.strokeRect(x, y, w, h);
+      ctx.setLineDash([]);
+  }
+
+  ctx.restore();
+};
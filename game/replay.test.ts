@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_LEVELS } from '../levels';
+import { createGameState, step } from './engine';
+import { loadLevel } from './levels';
+import {
+  REPLAY_VERSION, appendInput, createReplay, decodeInput, encodeInput, expandInputs, parseReplay,
+  replayToBase64, serializeReplay
+} from './replay';
+import { FrameInput } from './types';
+
+const inputAt = (frame: number): FrameInput => ({
+  left: frame % 200 > 180,
+  right: frame % 200 < 150,
+  jump: frame % 41 === 0,
+  jumpHeld: frame % 41 < 20,
+  run: frame % 300 < 200,
+  fire: frame % 60 === 0
+});
+
+const record = (frames: number) => {
+  const replay = createReplay(1234, BUILT_IN_LEVELS[0]);
+  for (let frame = 0; frame < frames; frame++) appendInput(replay, inputAt(frame));
+  return replay;
+};
+
+describe('input encoding', () => {
+  it('round-trips every combination of buttons', () => {
+    for (let mask = 0; mask < 64; mask++) {
+      expect(encodeInput(decodeInput(mask))).toBe(mask);
+    }
+  });
+
+  it('run-length encodes repeated input', () => {
+    const replay = createReplay(1);
+    const right = { ...decodeInput(0), right: true };
+    for (let i = 0; i < 50; i++) appendInput(replay, right);
+    appendInput(replay, decodeInput(0));
+    expect(replay.inputs).toEqual([[encodeInput(right), 50], [0, 1]]);
+    expect(replay.frames).toBe(51);
+    expect(expandInputs(replay)).toHaveLength(51);
+  });
+});
+
+describe('serializeReplay / parseReplay', () => {
+  it('round-trips through JSON', () => {
+    const replay = record(900);
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it('round-trips through the share code, level names and all', () => {
+    const replay = record(300);
+    replay.level = { ...replay.level, name: 'Château ★' };
+    expect(parseReplay(replayToBase64(replay))).toEqual(replay);
+  });
+
+  it('plays a parsed replay back to the same state', () => {
+    const replay = record(900);
+    const play = (masks: number[]) => {
+      const state = createGameState(replay.seed);
+      loadLevel(state, replay.level);
+      masks.forEach(mask => step(state, decodeInput(mask)));
+      return JSON.stringify(state);
+    };
+    expect(play(expandInputs(parseReplay(serializeReplay(replay))))).toBe(play(expandInputs(replay)));
+  });
+
+  it.each<[string, unknown, string]>([
+    ['another version', { version: REPLAY_VERSION + 1, seed: 1, inputs: [] }, 'Unsupported replay version'],
+    ['a missing seed', { version: REPLAY_VERSION, inputs: [] }, 'Malformed replay'],
+    ['inputs that are not pairs', { version: REPLAY_VERSION, seed: 1, inputs: [[1, 2, 3]] }, 'Malformed replay input'],
+    ['negative repeats', { version: REPLAY_VERSION, seed: 1, inputs: [[1, -2]] }, 'Malformed replay input'],
+    ['a bad level', { version: REPLAY_VERSION, seed: 1, inputs: [], level: { name: 'x' } }, 'Unknown theme']
+  ])('rejects %s', (_, data, message) => {
+    expect(() => parseReplay(JSON.stringify(data))).toThrow(message);
+  });
+
+  it('rejects a share code that is not a replay', () => {
+    expect(() => parseReplay(btoa('[1,2]'))).toThrow(/replay/);
+  });
+});
@@ -0,0 +1,117 @@
+import { FrameInput } from './types';
+import { LevelData, parseLevel } from './levels';
+
+// --- Replays ---
+// A run is fully determined by its seed plus the input of every fixed step, so
+// that is all a replay stores. Inputs are packed into a bitmask per step and
+// run-length encoded as [mask, repeat] pairs, which keeps idle stretches and
+// held directions down to a handful of numbers. Level runs embed the whole
+// level so a replay of an edited course still plays back anywhere.
+
+export const REPLAY_VERSION = 2;
+
+const INPUT_LEFT = 1;
+const INPUT_RIGHT = 2;
+const INPUT_JUMP = 4;
+const INPUT_FIRE = 8;
+const INPUT_JUMP_HELD = 16;
+const INPUT_RUN = 32;
+
+export interface Replay {
+  version: number;
+  seed: number;
+  level: LevelData | null;
+  frames: number;
+  inputs: [number, number][];
+}
+
+export const createReplay = (seed: number, level: LevelData | null = null): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  level,
+  frames: 0,
+  inputs: []
+});
+
+export const encodeInput = (input: FrameInput) =>
+  (input.left ? INPUT_LEFT : 0) |
+  (input.right ? INPUT_RIGHT : 0) |
+  (input.jump ? INPUT_JUMP : 0) |
+  (input.fire ? INPUT_FIRE : 0) |
+  (input.jumpHeld ? INPUT_JUMP_HELD : 0) |
+  (input.run ? INPUT_RUN : 0);
+
+export const decodeInput = (mask: number): FrameInput => ({
+  left: (mask & INPUT_LEFT) !== 0,
+  right: (mask & INPUT_RIGHT) !== 0,
+  jump: (mask & INPUT_JUMP) !== 0,
+  fire: (mask & INPUT_FIRE) !== 0,
+  jumpHeld: (mask & INPUT_JUMP_HELD) !== 0,
+  run: (mask & INPUT_RUN) !== 0
+});
+
+export const appendInput = (replay: Replay, input: FrameInput) => {
+  const mask = encodeInput(input);
+  const last = replay.inputs[replay.inputs.length - 1];
+  if (last && last[0] === mask) {
+    last[1]++;
+  } else {
+    replay.inputs.push([mask, 1]);
+  }
+  replay.frames++;
+};
+
+// Flattens the run-length pairs into one mask per step for random access.
+export const expandInputs = (replay: Replay) => {
+  const masks: number[] = [];
+  replay.inputs.forEach(([mask, repeat]) => {
+    for (let i = 0; i < repeat; i++) masks.push(mask);
+  });
+  return masks;
+};
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+// Compact single-line form for pasting into bug reports. The JSON goes
+// through UTF-8 first because btoa only takes Latin-1 and level names may not.
+export const replayToBase64 = (replay: Replay) => {
+  let binary = '';
+  new TextEncoder().encode(serializeReplay(replay)).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const base64ToText = (code: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(code), char => char.charCodeAt(0)));
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isInputPair = (pair: unknown): pair is [number, number] =>
+  Array.isArray(pair) && pair.length === 2 && pair.every(n => Number.isInteger(n) && n >= 0);
+
+// Accepts either the JSON file contents or the base64 share code.
+export const parseReplay = (text: string): Replay => {
+  const trimmed = text.trim();
+  const json = trimmed.startsWith('{') ? trimmed : base64ToText(trimmed);
+  const data: unknown = JSON.parse(json);
+
+  if (!isObject(data)) throw new Error('Malformed replay');
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  const { seed, level } = data;
+  if (typeof seed !== 'number' || !Array.isArray(data.inputs)) {
+    throw new Error('Malformed replay');
+  }
+  const inputs = data.inputs.map((pair: unknown): [number, number] => {
+    if (!isInputPair(pair)) throw new Error('Malformed replay input');
+    return [pair[0], pair[1]];
+  });
+
+  return {
+    version: REPLAY_VERSION,
+    seed: seed >>> 0,
+    level: level ? parseLevel(level) : null,
+    frames: inputs.reduce((total, [, repeat]) => total + repeat, 0),
+    inputs
+  };
+};
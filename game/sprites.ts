@@ -0,0 +1,117 @@
+// --- Sprite Cache ---
+// Characters are painted once per look (pose, palette) into an offscreen
+// canvas and blitted with drawImage from then on. Painters keep
+// drawing in world coordinates around a box; the cache shifts them to its own
+// origin, so the existing drawers double as sprite painters.
+//
+// An optional sprite sheet reskins characters: any frame named after a sprite
+// is drawn scaled into that sprite's box instead of the painted look. Names
+// are player_small/big/fire, enemy types in lower case (goomba, turtle_red,
+// ...), shell_turtle/shell_turtle_red, mushroom, one_up and the decorations
+// (hill, pyramid, crystal). Frames face right and are mirrored when needed.
+
+// Room around the box for parts that stick out (spikes, bob, strides)
+const SPRITE_PAD = 16;
+// Least recently drawn looks are dropped past this many, so a long run can't
+// pile up offscreen canvases
+const MAX_SPRITES = 256;
+
+export interface SpriteFrame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SpriteSheet {
+  image: CanvasImageSource;
+  frames: Record<string, SpriteFrame>;
+}
+
+export interface SpriteBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SpriteLook {
+  // Everything the painted look depends on besides position
+  key: string;
+  // Frame name looked up in a loaded sprite sheet
+  skin: string;
+  box: SpriteBox;
+  facingRight: boolean;
+}
+
+type Painter = (ctx: CanvasRenderingContext2D) => void;
+
+const cache = new Map<string, HTMLCanvasElement>();
+let sheet: SpriteSheet | null = null;
+
+export const setSpriteSheet = (next: SpriteSheet | null) => {
+  sheet = next;
+  cache.clear();
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Accepts `{ frames: { name: { x, y, w, h } } }` or the TexturePacker
+// "hash" export, where each frame nests its rectangle under `frame`.
+export const parseSpriteFrames = (text: string): Record<string, SpriteFrame> => {
+  const data: unknown = JSON.parse(text);
+  if (!isObject(data) || !isObject(data.frames)) throw new Error('Sprite map needs a "frames" object');
+  const frames: Record<string, SpriteFrame> = {};
+  Object.entries(data.frames).forEach(([name, value]) => {
+    const rect = isObject(value) && isObject(value.frame) ? value.frame : value;
+    const { x, y, w, h } = isObject(rect) ? rect : {};
+    if (!isNumber(x) || !isNumber(y) || !isNumber(w) || !isNumber(h)) {
+      throw new Error(`Sprite frame "${name}" needs numeric x, y, w and h`);
+    }
+    frames[name] = { x, y, w, h };
+  });
+  return frames;
+};
+
+// Paints into a fresh canvas padded by SPRITE_PAD on every side.
+const renderSprite = (box: SpriteBox, paint: Painter) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(box.w) + SPRITE_PAD * 2;
+  canvas.height = Math.ceil(box.h) + SPRITE_PAD * 2;
+  const ctx = canvas.getContext('2d');
+  ctx.translate(SPRITE_PAD - box.x, SPRITE_PAD - box.y);
+  paint(ctx);
+  return canvas;
+};
+
+const sheetPainter = (frame: SpriteFrame, look: SpriteLook): Painter => ctx => {
+  const { x, y, w, h } = look.box;
+  if (look.facingRight) {
+    ctx.drawImage(sheet.image, frame.x, frame.y, frame.w, frame.h, x, y, w, h);
+  } else {
+    ctx.translate(x + w, y);
+    ctx.scale(-1, 1);
+    ctx.drawImage(sheet.image, frame.x, frame.y, frame.w, frame.h, 0, 0, w, h);
+  }
+};
+
+// Blits the sprite for `look`, painting it first if this look hasn't been
+// seen yet. `ox`/`oy` shift it without a new sprite, for wobbles that would
+// otherwise fill the cache.
+export const drawSprite = (
+  ctx: CanvasRenderingContext2D, look: SpriteLook, paint: Painter, ox = 0, oy = 0
+) => {
+  const frame = sheet?.frames[look.skin];
+  const key = frame ? `sheet:${look.skin}:${look.facingRight}` : look.key;
+  let sprite = cache.get(key);
+  if (sprite) {
+    // Re-inserting keeps the Map in least-recently-drawn order
+    cache.delete(key);
+  } else {
+    sprite = renderSprite(look.box, frame ? sheetPainter(frame, look) : paint);
+    if (cache.size >= MAX_SPRITES) cache.delete(cache.keys().next().value);
+  }
+  cache.set(key, sprite);
+  ctx.drawImage(sprite, look.box.x - SPRITE_PAD + ox, look.box.y - SPRITE_PAD + oy);
+};
@@ -0,0 +1,181 @@
+import { RandomStream } from './random';
+
+// Types
+
+export type BlockContents = 'MUSHROOM' | 'FIRE_FLOWER' | 'STAR' | 'ONE_UP' | 'COIN';
+
+// Small → big (mushroom) → fire (flower); each hit steps back down one.
+export type PowerState = 'SMALL' | 'BIG' | 'FIRE';
+
+// Oscillation of a moving platform around its origin.
+export interface PlatformPath {
+  axis: 'x' | 'y';
+  originX: number;
+  originY: number;
+  range: number;
+  speed: number;
+}
+
+export interface Entity {
+  id: number;
+  type: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  vx: number;
+  vy: number;
+  frame: number;
+  active: boolean;
+  // Position at the start of the last step, for render interpolation
+  prevX: number;
+  prevY: number;
+  path?: PlatformPath;
+  // What a QUESTION_BLOCK releases when bumped
+  contents?: BlockContents;
+  // Frames left of the bump animation of a block hit from below
+  bumpTimer?: number;
+  // Enemy AI scratch state, see ENEMY_BEHAVIORS in engine.ts
+  aiMode?: string;
+  aiTimer?: number;
+  homeY?: number;
+  dir?: number;
+  isGrounded?: boolean;
+  // Turtle a SHELL came from, and how many enemies it has knocked out in a row
+  shellOf?: string;
+  combo?: number;
+}
+
+// Floating "+200" / "1UP" text drawn where points were scored.
+export interface ScorePopup {
+  x: number;
+  y: number;
+  text: string;
+  life: number;
+}
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  color: string;
+}
+
+// A solid strip of ground at GROUND_Y; the space between segments is a pit.
+export interface GroundSegment {
+  x: number;
+  w: number;
+}
+
+export interface PlayerState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  w: number;
+  h: number;
+  isGrounded: boolean;
+  // Rising from a jump, so releasing the button may still cut it short
+  isJumping: boolean;
+  coyoteTimer: number;
+  jumpBuffer: number;
+  power: PowerState;
+  // Steps of star invincibility left; any enemy touched is knocked out
+  starTimer: number;
+  fireCooldown: number;
+  isInvulnerable: boolean;
+  invulnerableTimer: number;
+  facingRight: boolean;
+  runFrame: number;
+  // Id of the moving platform carrying the player, if any
+  standingOn: number | null;
+  // Stomps in a row without touching the ground
+  stompCombo: number;
+  prevX: number;
+  prevY: number;
+}
+
+export interface GameState {
+  player: PlayerState;
+  camera: { x: number; prevX: number };
+  entities: Entity[];
+  particles: Particle[];
+  // Rain splashes, apart from `particles` so LOW effects quality can skip them
+  splashes: Particle[];
+  popups: ScorePopup[];
+  // `parallax` is how fast a cloud scrolls relative to the camera (1 = world speed)
+  clouds: { x: number; y: number; size: number; parallax: number }[];
+  decorations: { x: number; y: number; type: string }[];
+  ground: GroundSegment[];
+
+  // ENDLESS generates terrain ahead of the camera; LEVEL plays a loaded layout
+  // that ends at worldEnd.
+  mode: 'ENDLESS' | 'LEVEL';
+  worldEnd: number;
+  
+  score: number;
+  highScore: number;
+  // Furthest point reached, in the 100px units that earn a point each
+  distance: number;
+  coins: number;
+  enemiesStomped: number;
+  lives: number;
+  // Where the player comes back after losing a life
+  checkpointX: number;
+  
+  lastGeneratedX: number;
+  lastGapEndX: number;
+  // Next theme boundary, where generation plants a checkpoint and switches theme
+  nextCheckpointX: number;
+  currentThemeIndex: number;
+  nextEntityId: number;
+  // The theme's weather while a spell of it is on, otherwise 'NONE'. Whether
+  // a WEATHER_STRETCH has a spell is rolled when that stretch is generated.
+  weather: string;
+  weatherStretch: number;
+  weatherSpells: boolean[];
+
+  seed: number;
+  // World generation draws only from worldRng, so the course depends on the
+  // seed alone; particles, clouds and other cosmetics draw from fxRng.
+  worldRng: RandomStream;
+  fxRng: RandomStream;
+  
+  frameCount: number;
+  isOver: boolean;
+}
+
+// Everything the simulation reads from the outside world for one step.
+// `jump` and `fire` are edges: true only on the step the button went down;
+// `jumpHeld` and `run` are levels.
+export interface FrameInput {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  jumpHeld: boolean;
+  run: boolean;
+  fire: boolean;
+}
+
+export type GameEvent =
+  | { type: 'JUMP' }
+  | { type: 'STOMP'; x: number; y: number }
+  | { type: 'POWER_UP'; power: PowerState }
+  | { type: 'POWER_DOWN'; power: PowerState }
+  | { type: 'STAR' }
+  | { type: 'LIFE_UP'; lives: number }
+  | { type: 'LIFE_LOST'; lives: number }
+  | { type: 'CHECKPOINT'; x: number }
+  | { type: 'FIREBALL' }
+  | { type: 'BUMP'; x: number; y: number }
+  | { type: 'BRICK_BREAK'; x: number; y: number }
+  | { type: 'COIN'; x: number; y: number; coins: number }
+  | { type: 'SLAM'; x: number; y: number }
+  | { type: 'KICK'; x: number; y: number }
+  | { type: 'KNOCKOUT'; x: number; y: number; score: number }
+  | { type: 'SCORE'; score: number }
+  | { type: 'THEME_CHANGE'; themeIndex: number }
+  | { type: 'GAME_OVER'; score: number }
+  | { type: 'LEVEL_CLEAR'; score: number; frames: number };
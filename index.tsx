@@ -5,176 +5,184 @@
 */
 import React, { useState, useRef, useEffect } from 'react';
 import ReactDOM from 'react-dom/client';
-
-// --- Game Constants ---
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 450;
-const GROUND_HEIGHT = 60;
-const GROUND_Y = CANVAS_HEIGHT - GROUND_HEIGHT;
-
-// Physics
-const GRAVITY = 0.6;
-const ACCELERATION = 0.5;
-const FRICTION = 0.82;
-const MAX_SPEED = 8;
-const JUMP_FORCE = -15;
-const BOUNCE_FORCE = -8;
-
-// Dimensions
-const PLAYER_W_SMALL = 30;
-const PLAYER_H_SMALL = 40;
-const PLAYER_W_BIG = 40;
-const PLAYER_H_BIG = 70;
-
-// Generation
-const THEME_CHANGE_DISTANCE = 3000;
-
-// --- Camera Modes ---
-const CAMERA_MODES = [
-  { name: '2D Flat', dx: 0, dy: 0 },
-  { name: 'Classic Right', dx: 10, dy: -10 },
-  { name: 'Classic Left', dx: -10, dy: -10 },
-  { name: 'Isometric Right', dx: 25, dy: -15 },
-  { name: 'Isometric Left', dx: -25, dy: -15 },
-  { name: 'Top Down', dx: 0, dy: -40 },
-  { name: 'Deep Right', dx: 40, dy: -20 },
-  { name: 'Deep Left', dx: -40, dy: -20 },
-  { name: 'Shallow Right', dx: 15, dy: -5 },
-  { name: 'Shallow Left', dx: -15, dy: -5 },
-  { name: 'Extreme Right', dx: 60, dy: -10 },
-  { name: 'Extreme Left', dx: -60, dy: -10 },
-  { name: 'Tall Perspective', dx: 5, dy: -35 },
-  { name: 'Wide Perspective', dx: 50, dy: -5 },
-];
-
-// --- Themes Configuration ---
-const THEMES = [
-  {
-    name: 'OVERWORLD',
-    bg: ['#5c94fc', '#95b8fc'],
-    ground: '#74bf2e',
-    dirt: '#835f30',
-    enemies: ['GOOMBA', 'TURTLE'],
-    decor: 'HILL',
-    platform: '#B8860B'
-  },
-  {
-    name: 'UNDERGROUND',
-    bg: ['#0d0e15', '#242636'],
-    ground: '#005f8c',
-    dirt: '#00334d',
-    enemies: ['BEETLE', 'GOOMBA_BLUE'],
-    decor: 'CRYSTAL',
-    platform: '#007AA3'
-  },
-  {
-    name: 'DESERT',
-    bg: ['#ffcc33', '#ff9933'],
-    ground: '#e6c288',
-    dirt: '#bf9b30',
-    enemies: ['CACTUS_MOVING', 'TURTLE_RED'],
-    decor: 'PYRAMID',
-    platform: '#CD853F'
-  },
-  {
-    name: 'CASTLE',
-    bg: ['#2b0808', '#4a1010'],
-    ground: '#666666',
-    dirt: '#333333',
-    enemies: ['GHOST', 'THWOMP'],
-    decor: 'CHAIN',
-    platform: '#808080'
-  }
-];
-
-// Types
-interface Entity {
-  id: number;
-  type: string;
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  vx: number;
-  vy: number;
-  frame: number;
-  active: boolean;
-}
-
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  color: string;
+import { CANVAS_WIDTH, CANVAS_HEIGHT, GROUND_Y, CAMERA_MODES, THEMES, STEP_MS, MAX_STEPS_PER_FRAME, START_LIVES } from './game/constants';
+import { parseSeed, randomSeed } from './game/random';
+import { createGameState, resetGame, step } from './game/engine';
+import { draw, drawEditorOverlay } from './game/render';
+import { CameraView, FLAT_VIEW, easeCameraView } from './game/projection';
+import { parseSpriteFrames, setSpriteSheet } from './game/sprites';
+import { createReplay, appendInput, decodeInput, expandInputs, parseReplay, replayToBase64, serializeReplay, Replay } from './game/replay';
+import { LevelData, formatLevelTime, loadLevel, parseLevel } from './game/levels';
+import {
+  EditorTool, ItemRef, TILE_SIZE, createBlankLevel, hasGroundTile, hitTest, itemBox,
+  moveItem, placeItem, removeItem, resizeLevel, setGroundTile, snapX, snapY
+} from './game/editor';
+import { FrameInput, GameEvent, GameState } from './game/types';
+import { BUILT_IN_LEVELS } from './levels';
+import { ReplayControls } from './components/ReplayControls';
+import { Leaderboard, NameEntry } from './components/Leaderboard';
+import { LevelSelect } from './components/LevelSelect';
+import { EditorToolbar } from './components/EditorToolbar';
+import { AudioControls } from './components/AudioControls';
+import { ControlsSettings } from './components/ControlsSettings';
+import {
+  LeaderboardEntry, loadLeaderboard, addLeaderboardEntry, clearLeaderboard,
+  qualifiesForLeaderboard, loadPlayerName, savePlayerName
+} from './services/leaderboard';
+import { loadCameraIndex, saveCameraIndex } from './services/camera';
+import { loadEffectsQuality, saveEffectsQuality } from './services/graphics';
+import {
+  Action, InputState, actionsForKey, consumePress, createInputState, isHeld, loadBindings, pollGamepads, releaseAll, saveBindings
+} from './services/input';
+import {
+  SoundEffect, applyAudioSettings, loadAudioSettings, playMusic, playSfx, saveAudioSettings, stopMusic, unlockAudio
+} from './services/audio';
+
+const URL_SEED = parseSeed(new URLSearchParams(window.location.search).get('seed'));
+
+// Sound for each engine event that has one
+const EVENT_SOUNDS: Partial<Record<GameEvent['type'], SoundEffect>> = {
+  JUMP: 'jump',
+  STOMP: 'stomp',
+  KICK: 'stomp',
+  POWER_UP: 'powerUp',
+  STAR: 'powerUp',
+  POWER_DOWN: 'powerDown',
+  LIFE_LOST: 'powerDown',
+  GAME_OVER: 'gameOver',
+  LEVEL_CLEAR: 'levelClear',
+  COIN: 'coin',
+  LIFE_UP: 'lifeUp',
+  FIREBALL: 'fireball',
+  BUMP: 'bump',
+  BRICK_BREAK: 'bump',
+};
+
+// PAUSED keeps the current run; only PLAYING entered from any other mode starts a new one.
+type GameMode = 'START' | 'PLAYING' | 'PAUSED' | 'GAME_OVER' | 'LEVEL_CLEAR' | 'REPLAY' | 'EDITOR';
+
+const EDITOR_PAN_SPEED = 12;
+
+// What a mouse drag in the editor is doing: moving an item or painting ground.
+type EditorDrag = { item: ItemRef } | { paintGround: boolean };
+
+interface Playback {
+  replay: Replay;
+  masks: number[];
+  paused: boolean;
+  returnTo: GameMode;
+  // Copies of the run every REPLAY_SNAPSHOT_INTERVAL steps, index 0 the start
+  snapshots: GameState[];
 }
 
-interface GameState {
-  player: {
-    x: number;
-    y: number;
-    vx: number;
-    vy: number;
-    w: number;
-    h: number;
-    isGrounded: boolean;
-    isBig: boolean;
-    isInvulnerable: boolean;
-    invulnerableTimer: number;
-    facingRight: boolean;
-    runFrame: number;
-  };
-  camera: { x: number };
-  entities: Entity[];
-  particles: Particle[];
-  clouds: { x: number; y: number; size: number; speed: number }[];
-  decorations: { x: number; y: number; type: string }[];
-  
-  score: number;
-  highScore: number;
-  
-  lastGeneratedX: number;
-  currentThemeIndex: number;
-  
-  frameCount: number;
-  animationFrameId: number;
-}
+// Seeking re-simulates from the nearest earlier snapshot, not from frame 0
+const REPLAY_SNAPSHOT_INTERVAL = 600;
+
+// Fields that take typed text (or a select's arrow keys) keep keys from the
+// game. Sliders do not: one left focused after a drag must not eat the controls.
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLInputElement && (target.type === 'text' || target.type === 'number'));
+
+// Resets a state for a new run, in endless mode or on a hand-authored level.
+const prepareRun = (state: GameState, seed: number, level: LevelData | null) => {
+  resetGame(state, seed);
+  if (level) loadLevel(state, level);
+};
+
+const downloadFile = (filename: string, contents: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
-  const [gameState, setGameState] = useState<'START' | 'PLAYING' | 'GAME_OVER'>('START');
+  const [gameState, setGameState] = useState<GameMode>('START');
   const [score, setScore] = useState(0);
+  const [lives, setLives] = useState(START_LIVES);
+  const [coins, setCoins] = useState(0);
   const [currentThemeName, setCurrentThemeName] = useState('OVERWORLD');
-  const [cameraIndex, setCameraIndex] = useState(0);
+  const [cameraIndex, setCameraIndex] = useState(loadCameraIndex);
+  const [seed, setSeed] = useState(() => URL_SEED ?? randomSeed());
+  const [selectedLevel, setSelectedLevel] = useState<LevelData | null>(null);
+  const [clearResult, setClearResult] = useState<{ level: string; score: number; frames: number } | null>(null);
   
   const currentCamera = CAMERA_MODES[cameraIndex];
-
-  // Input State
-  const keys = useRef<Set<string>>(new Set());
+  // The render loops read the camera from refs, so switching modes never
+  // re-runs the loop effect (which would start a new run).
+  const cameraIndexRef = useRef(cameraIndex);
+  cameraIndexRef.current = cameraIndex;
+  const cameraView = useRef<CameraView>({ ...CAMERA_MODES[cameraIndex] });
+  const [effectsQuality, setEffectsQuality] = useState(loadEffectsQuality);
+  const effectsQualityRef = useRef(effectsQuality);
+  effectsQualityRef.current = effectsQuality;
+
+  // Input State: bindings are React state for the settings panel and
+  // mirrored into a ref for the key handler and game loop.
+  const input = useRef<InputState>(createInputState());
+  const [bindings, setBindings] = useState(loadBindings);
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const [showControls, setShowControls] = useState(false);
+  // Set when leaving PAUSED so the loop carries on instead of starting a new run
+  const resuming = useRef(false);
+  const [showPauseSettings, setShowPauseSettings] = useState(false);
+
+  // Leaderboard
+  const [leaderboard, setLeaderboard] = useState(loadLeaderboard);
+  const [pendingEntry, setPendingEntry] = useState<Omit<LeaderboardEntry, 'name'> | null>(null);
+  const [savedEntry, setSavedEntry] = useState<LeaderboardEntry | null>(null);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+
+  const [audioSettings, setAudioSettings] = useState(loadAudioSettings);
 
   // Mutable Game State
-  const game = useRef<GameState>({
-    player: {
-      x: 100, y: 100, vx: 0, vy: 0, 
-      w: PLAYER_W_SMALL, h: PLAYER_H_SMALL, 
-      isGrounded: false, isBig: false, isInvulnerable: false, invulnerableTimer: 0,
-      facingRight: true, runFrame: 0
-    },
-    camera: { x: 0 },
-    entities: [],
-    particles: [],
-    clouds: [],
-    decorations: [],
-    score: 0,
-    highScore: 0,
-    lastGeneratedX: 0,
-    currentThemeIndex: 0,
-    frameCount: 0,
-    animationFrameId: 0
-  });
+  const game = useRef<GameState>(null);
+  if (game.current === null) {
+    game.current = createGameState(seed);
+    game.current.highScore = leaderboard[0]?.score ?? 0;
+  }
+  const animationFrameId = useRef(0);
+
+  // Replays: the live run is always recorded; playback runs on its own state so
+  // watching a replay never touches the real run or its high score.
+  const recording = useRef<Replay>(createReplay(seed));
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const playback = useRef<Playback>(null);
+  const replayGame = useRef<GameState>(null);
+  const playbackSpeed = useRef(1);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const scrubberRef = useRef<HTMLInputElement>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // Level Editor: the layout is React state; camera, hover and drag live in
+  // refs because the editor's render loop reads them every frame.
+  const [editorLevel, setEditorLevel] = useState<LevelData>(() => createBlankLevel());
+  const [editorTool, setEditorTool] = useState<EditorTool>('BLOCK');
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [testingLevel, setTestingLevel] = useState(false);
+  const editorGame = useRef<GameState>(null);
+  const editorCamX = useRef(0);
+  const editorHover = useRef<{ x: number; y: number } | null>(null);
+  const editorDrag = useRef<EditorDrag | null>(null);
+  const levelImportRef = useRef<HTMLInputElement>(null);
+
+  // Custom sprite sheet: a PNG plus its JSON frame map, picked together
+  const skinImportRef = useRef<HTMLInputElement>(null);
+  const [skinLoaded, setSkinLoaded] = useState(false);
+  const [skinError, setSkinError] = useState<string | null>(null);
+  const editorLevelRef = useRef(editorLevel);
+  editorLevelRef.current = editorLevel;
+  const editorToolRef = useRef(editorTool);
+  editorToolRef.current = editorTool;
 
   // Focus helper
   const focusGame = () => {
@@ -184,12 +192,25 @@ function App() {
   // Input Listeners
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      keys.current.add(e.code);
-      if ((e.code === 'Space' || e.code === 'ArrowUp') && gameState === 'PLAYING') {
-        performJump();
+      if (isTextEntry(e.target)) return;
+      input.current.keys.add(e.code);
+      if ((e.code === 'Delete' || e.code === 'Backspace') && gameState === 'EDITOR' && editorHover.current) {
+        const { x, y } = editorHover.current;
+        setEditorLevel(level => {
+          const hit = hitTest(level, x, y);
+          return hit ? removeItem(level, hit) : level;
+        });
       }
+      if (e.repeat) return;
+      actionsForKey(bindingsRef.current, e.code).forEach(action => {
+        if (action === 'camera') {
+          if (gameState !== 'EDITOR') cycleCamera(1);
+        } else if (gameState === 'PLAYING' || gameState === 'PAUSED') {
+          input.current.pressed.add(action);
+        }
+      });
     };
-    const handleKeyUp = (e: KeyboardEvent) => keys.current.delete(e.code);
+    const handleKeyUp = (e: KeyboardEvent) => input.current.keys.delete(e.code);
     
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
@@ -199,29 +220,58 @@ function App() {
     };
   }, [gameState]);
 
-  // Jump Logic
-  const performJump = () => {
-    const p = game.current.player;
-    if (p.isGrounded) {
-      p.vy = JUMP_FORCE;
-      p.isGrounded = false;
-    }
-  };
-
-  // Init Background
+  // Browsers only allow audio to start from a user gesture
   useEffect(() => {
-    const initClouds = [];
-    for(let i=0; i<8; i++) {
-        initClouds.push({
-            x: Math.random() * CANVAS_WIDTH,
-            y: Math.random() * (CANVAS_HEIGHT / 2),
-            size: 0.5 + Math.random() * 1,
-            speed: 0.1 + Math.random() * 0.3
-        });
-    }
-    game.current.clouds = initClouds;
+    window.addEventListener('pointerdown', unlockAudio);
+    window.addEventListener('keydown', unlockAudio);
+    return () => {
+      window.removeEventListener('pointerdown', unlockAudio);
+      window.removeEventListener('keydown', unlockAudio);
+    };
   }, []);
 
+  useEffect(() => saveBindings(bindings), [bindings]);
+  useEffect(() => saveCameraIndex(cameraIndex), [cameraIndex]);
+  useEffect(() => saveEffectsQuality(effectsQuality), [effectsQuality]);
+
+  // Leaving the tab or window pauses the run
+  useEffect(() => {
+    if (gameState !== 'PLAYING') return;
+    const handleVisibility = () => { if (document.hidden) pauseGame(); };
+    window.addEventListener('blur', pauseGame);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('blur', pauseGame);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [gameState]);
+
+  useEffect(() => {
+    applyAudioSettings(audioSettings);
+    saveAudioSettings(audioSettings);
+  }, [audioSettings]);
+
+  // Music follows the world theme while a run is on screen
+  useEffect(() => {
+    if (gameState === 'PLAYING' || gameState === 'REPLAY') playMusic(currentThemeName);
+    else stopMusic();
+  }, [gameState, currentThemeName]);
+
+  // Presses are queued and consumed by the next simulation step
+  const readInput = (): FrameInput => {
+    const state = input.current;
+    const frame = {
+      left: isHeld(state, bindingsRef.current, 'left'),
+      right: isHeld(state, bindingsRef.current, 'right'),
+      jump: consumePress(state, 'jump'),
+      jumpHeld: isHeld(state, bindingsRef.current, 'jump'),
+      run: isHeld(state, bindingsRef.current, 'run'),
+      fire: consumePress(state, 'fire')
+    };
+    state.pressed.clear();
+    return frame;
+  };
+
   // --- Game Loop ---
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -229,702 +279,467 @@ function App() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const loop = () => {
-      if (gameState !== 'PLAYING') return;
+    // Fixed timestep: real elapsed time fills an accumulator that is drained
+    // in STEP_MS slices, so physics speed doesn't depend on the refresh rate.
+    let lastTime: number | null = null;
+    let accumulator = 0;
 
-      const state = game.current;
-      state.frameCount++;
+    const isReplay = gameState === 'REPLAY';
 
-      updatePlayer(state);
-      
-      // Camera Follow
-      const targetCamX = state.player.x - CANVAS_WIDTH * 0.4;
-      if (targetCamX > state.camera.x) {
-        state.camera.x = targetCamX;
-      }
+    // Camera easing follows real time, whatever the replay speed
+    let lastDrawTime: number | null = null;
 
-      generateWorld(state);
-      updateEntities(state);
-      updateParticles(state);
+    const drawFrame = (state: GameState, time: number, alpha?: number) => {
+      const elapsed = lastDrawTime === null ? STEP_MS : time - lastDrawTime;
+      lastDrawTime = time;
+      easeCameraView(cameraView.current, CAMERA_MODES[cameraIndexRef.current], elapsed);
+      draw(ctx, state, cameraView.current, alpha, effectsQualityRef.current);
+    };
 
-      // Background Parallax
-      state.clouds.forEach(c => {
-         c.x -= c.speed; 
-         if (c.x + 100 < 0) c.x = CANVAS_WIDTH + 100;
+    const editorLoop = () => {
+      const state = editorGame.current;
+      const maxCamX = Math.max(0, state.worldEnd - CANVAS_WIDTH + TILE_SIZE * 2);
+      const keys = input.current.keys;
+      if (keys.has('ArrowLeft') || keys.has('KeyA')) editorCamX.current -= EDITOR_PAN_SPEED;
+      if (keys.has('ArrowRight') || keys.has('KeyD')) editorCamX.current += EDITOR_PAN_SPEED;
+      editorCamX.current = Math.min(Math.max(0, editorCamX.current), maxCamX);
+
+      state.camera.x = state.camera.prevX = editorCamX.current;
+      // Always flat and unlit, so the tile grid and cursor line up with what they edit
+      draw(ctx, state, FLAT_VIEW, 1, 'LOW');
+
+      drawEditorOverlay(ctx, editorCamX.current, {
+        hover: editorHoverBox(),
+        erase: editorToolRef.current === 'ERASE',
+        worldEnd: state.worldEnd
       });
+      animationFrameId.current = requestAnimationFrame(editorLoop);
+    };
+
+    const loop = (time: number) => {
+      if (gameState !== 'PLAYING' && gameState !== 'REPLAY') return;
 
-      // Update UI Score
-      const distScore = Math.floor(state.player.x / 100);
-      if (distScore > state.score) {
-          state.score = distScore;
-          setScore(state.score);
+      if (!isReplay) {
+        pollGamepads(input.current);
+        if (consumePress(input.current, 'pause')) {
+          pauseGame();
+          return;
+        }
+        if (consumePress(input.current, 'camera')) cycleCamera(1);
       }
-      
-      // Sync Theme Name
-      const theme = THEMES[state.currentThemeIndex];
-      if (theme.name !== currentThemeName) {
-         setCurrentThemeName(theme.name); 
+
+      const state = isReplay ? replayGame.current : game.current;
+      const speed = isReplay ? playbackSpeed.current : 1;
+      if (lastTime !== null) accumulator += (time - lastTime) * speed;
+      lastTime = time;
+      // Drop backlog after a stall (background tab, debugger) instead of fast-forwarding
+      accumulator = Math.min(accumulator, STEP_MS * MAX_STEPS_PER_FRAME * speed);
+
+      while (accumulator >= STEP_MS) {
+        accumulator -= STEP_MS;
+
+        if (isReplay) {
+          const pb = playback.current;
+          if (pb.paused || state.isOver || state.frameCount >= pb.masks.length) {
+            accumulator = 0;
+            break;
+          }
+          handleEvents(stepPlayback(state), true);
+        } else {
+          const input = readInput();
+          appendInput(recording.current, input);
+          handleEvents(step(state, input), false);
+        }
+      }
+
+      if (isReplay && scrubberRef.current) {
+        scrubberRef.current.value = String(state.frameCount);
       }
 
-      draw(ctx, state);
-      state.animationFrameId = requestAnimationFrame(loop);
+      drawFrame(state, time, accumulator / STEP_MS);
+      animationFrameId.current = requestAnimationFrame(loop);
+    };
+
+    // Menus and the pause screen keep redrawing the frozen run so camera
+    // changes still ease in; Pause/Start on a gamepad has to be polled to resume.
+    const stillLoop = (time: number) => {
+      if (gameState === 'PAUSED') {
+        pollGamepads(input.current);
+        if (consumePress(input.current, 'camera')) cycleCamera(1);
+        if (consumePress(input.current, 'pause')) {
+          resumeGame();
+          return;
+        }
+      }
+      drawFrame(game.current, time);
+      animationFrameId.current = requestAnimationFrame(stillLoop);
     };
 
     if (gameState === 'PLAYING') {
-      resetGame();
+      if (resuming.current) resuming.current = false;
+      else startRun();
       focusGame();
-      game.current.animationFrameId = requestAnimationFrame(loop);
+      animationFrameId.current = requestAnimationFrame(loop);
+    } else if (gameState === 'REPLAY') {
+      seekReplay(0);
+      animationFrameId.current = requestAnimationFrame(loop);
+    } else if (gameState === 'EDITOR') {
+      animationFrameId.current = requestAnimationFrame(editorLoop);
     } else {
-      draw(ctx, game.current);
+      animationFrameId.current = requestAnimationFrame(stillLoop);
     }
 
-    return () => cancelAnimationFrame(game.current.animationFrameId);
-  }, [gameState, cameraIndex]); // Re-bind loop if camera changes
+    return () => cancelAnimationFrame(animationFrameId.current);
+  }, [gameState]);
 
-  const resetGame = () => {
-    const g = game.current;
-    g.player = {
-      x: 100, y: GROUND_Y - PLAYER_H_SMALL, vx: 0, vy: 0,
-      w: PLAYER_W_SMALL, h: PLAYER_H_SMALL,
-      isGrounded: false, isBig: false, isInvulnerable: false, invulnerableTimer: 0,
-      facingRight: true, runFrame: 0
-    };
-    g.camera.x = 0;
-    g.entities = [];
-    g.particles = [];
-    g.decorations = [];
-    g.score = 0;
-    g.lastGeneratedX = 400;
-    g.currentThemeIndex = 0;
-    g.frameCount = 0;
-    setScore(0);
-    setCurrentThemeName('OVERWORLD');
+  // Rebuild the preview world whenever the edited layout changes
+  useEffect(() => {
+    const state = createGameState(seed);
+    loadLevel(state, editorLevel);
+    editorGame.current = state;
+  }, [editorLevel]);
+
+  const handleEvents = (events: GameEvent[], isReplay: boolean) => {
+    events.forEach(event => {
+      if (EVENT_SOUNDS[event.type]) playSfx(EVENT_SOUNDS[event.type]);
+      if (event.type === 'SCORE') setScore(event.score);
+      if (event.type === 'LIFE_UP' || event.type === 'LIFE_LOST') setLives(event.lives);
+      if (event.type === 'COIN') setCoins(event.coins);
+      if (event.type === 'THEME_CHANGE') setCurrentThemeName(THEMES[event.themeIndex].name);
+      if (event.type === 'GAME_OVER' && !isReplay) {
+        setLastReplay(recording.current);
+        recordResult(game.current);
+        setGameState('GAME_OVER');
+      }
+      if (event.type === 'LEVEL_CLEAR' && !isReplay) {
+        setLastReplay(recording.current);
+        setClearResult({ level: selectedLevel.name, score: event.score, frames: event.frames });
+        setGameState('LEVEL_CLEAR');
+      }
+    });
   };
 
-  const updatePlayer = (state: GameState) => {
-    const p = state.player;
+  const startRun = () => {
+    prepareRun(game.current, seed, selectedLevel);
+    recording.current = createReplay(seed, selectedLevel);
+    input.current.pressed.clear();
+    setScore(0);
+    setLives(game.current.lives);
+    setCoins(0);
+    setCurrentThemeName(THEMES[game.current.currentThemeIndex].name);
+  };
 
-    if (keys.current.has('ArrowRight')) {
-        p.vx += ACCELERATION;
-        p.facingRight = true;
-    } else if (keys.current.has('ArrowLeft')) {
-        p.vx -= ACCELERATION;
-        p.facingRight = false;
-    } else {
-        p.vx *= FRICTION;
-    }
-    
-    if (p.vx > MAX_SPEED) p.vx = MAX_SPEED;
-    if (p.vx < -MAX_SPEED) p.vx = -MAX_SPEED;
-    if (Math.abs(p.vx) < 0.1) p.vx = 0;
+  // --- Pause ---
+  const pauseGame = () => {
+    releaseAll(input.current);
+    setShowPauseSettings(false);
+    setGameState('PAUSED');
+  };
 
-    p.x += p.vx;
-    if (p.x < 0) { p.x = 0; p.vx = 0; }
+  const resumeGame = () => {
+    releaseAll(input.current);
+    resuming.current = true;
+    setGameState('PLAYING');
+  };
 
-    p.vy += GRAVITY;
-    p.y += p.vy;
+  const quitToTitle = () => {
+    if (testingLevel) returnToEditor();
+    else setGameState('START');
+  };
 
-    // Ground
-    if (p.y + p.h > GROUND_Y) {
-        p.y = GROUND_Y - p.h;
-        p.vy = 0;
-        p.isGrounded = true;
-    } else {
-        p.isGrounded = false;
+  // --- Leaderboard ---
+  // Only endless runs are ranked; level scores aren't comparable.
+  const recordResult = (state: GameState) => {
+    setSavedEntry(null);
+    if (state.mode !== 'ENDLESS') {
+      setPendingEntry(null);
+      return;
     }
-
-    // Platforms
-    state.entities.forEach(ent => {
-        if (ent.type === 'BLOCK' && ent.active) {
-            // Precise landing
-            if (p.vy >= 0 && 
-                p.y + p.h - p.vy <= ent.y + 10 &&
-                p.x + p.w > ent.x + 5 && p.x < ent.x + ent.w - 5 &&
-                p.y + p.h >= ent.y) {
-                    p.y = ent.y - p.h;
-                    p.vy = 0;
-                    p.isGrounded = true;
-            }
-        }
+    setPendingEntry({
+      score: state.score,
+      date: new Date().toISOString(),
+      distance: state.distance,
+      enemiesStomped: state.enemiesStomped,
+      theme: THEMES[state.currentThemeIndex].name,
+      camera: CAMERA_MODES[cameraIndexRef.current].name,
+      seed: state.seed
     });
+  };
 
-    if (p.isInvulnerable) {
-        p.invulnerableTimer--;
-        if (p.invulnerableTimer <= 0) p.isInvulnerable = false;
-    }
-
-    if (Math.abs(p.vx) > 0.5 && p.isGrounded) {
-        p.runFrame += Math.abs(p.vx) * 0.05;
-    } else if (!p.isGrounded) {
-        p.runFrame = 1;
-    } else {
-        p.runFrame = 0;
-    }
+  const submitScore = (name: string) => {
+    const entry = { ...pendingEntry, name };
+    savePlayerName(name);
+    setLeaderboard(addLeaderboardEntry(leaderboard, entry));
+    setPendingEntry(null);
+    setSavedEntry(entry);
   };
 
-  const generateWorld = (state: GameState) => {
-      const generateHorizon = state.camera.x + CANVAS_WIDTH + 200;
-      
-      while (state.lastGeneratedX < generateHorizon) {
-          const theme = THEMES[state.currentThemeIndex];
-          const x = state.lastGeneratedX;
-          
-          if (Math.random() < 0.15) {
-              const decor = { x, y: GROUND_Y, type: theme.decor };
-              state.decorations.push(decor);
-          }
+  const resetLeaderboard = () => {
+    setLeaderboard(clearLeaderboard());
+    setSavedEntry(null);
+    game.current.highScore = 0;
+  };
 
-          if (x > 600 && Math.random() < 0.06) {
-             const type = theme.enemies[Math.floor(Math.random() * theme.enemies.length)];
-             let y = GROUND_Y - 40;
-             let w = 40, h = 40;
-             let vx = -1;
-             
-             if (type === 'GHOST') {
-                 y = GROUND_Y - 100 - Math.random() * 100;
-                 vx = -1.5;
-             }
-             if (type === 'THWOMP') {
-                 y = GROUND_Y - 150;
-                 w = 60; h = 60;
-                 vx = 0;
-             }
-             if (type === 'CACTUS_MOVING') {
-                 vx = 0;
-                 w = 50; h = 60;
-                 y = GROUND_Y - 60;
-             }
-
-             state.entities.push({
-                 id: Math.random(),
-                 type, x, y, w, h, vx, vy: 0, frame: 0, active: true
-             });
-          }
+  // --- Replay Playback ---
+  // The HUD follows whichever state is on screen, so it is reloaded wholesale
+  // when playback jumps around or hands back to the paused run.
+  const showHud = (state: GameState) => {
+    setScore(state.score);
+    setLives(state.lives);
+    setCoins(state.coins);
+    setCurrentThemeName(THEMES[state.currentThemeIndex].name);
+  };
 
-          if (x > 600 && Math.random() < 0.1) {
-             const height = 120 + (Math.random() * 50);
-             state.entities.push({
-                 id: Math.random(),
-                 type: 'BLOCK',
-                 x, y: GROUND_Y - height, w: 50, h: 50,
-                 vx: 0, vy: 0, frame: 0, active: true
-             });
-             
-             if (Math.random() < 0.3) {
-                 state.entities.push({
-                     id: Math.random(),
-                     type: 'MUSHROOM',
-                     x: x + 10, y: GROUND_Y - height - 40,
-                     w: 30, h: 30,
-                     vx: 0, vy: 0, frame: 0, active: true
-                 });
-             }
-          }
+  const startPlayback = (replay: Replay) => {
+    const state = createGameState(replay.seed);
+    prepareRun(state, replay.seed, replay.level);
+    playback.current = {
+      replay,
+      masks: expandInputs(replay),
+      paused: false,
+      returnTo: gameState,
+      snapshots: [structuredClone(state)]
+    };
+    replayGame.current = state;
+    setReplayPaused(false);
+    setReplayError(null);
+    setGameState('REPLAY');
+  };
 
-          state.lastGeneratedX += 60 + Math.random() * 60;
-      }
+  // Steps the replay state, snapshotting it whenever it reaches a new interval.
+  const stepPlayback = (state: GameState) => {
+    const pb = playback.current;
+    const events = step(state, decodeInput(pb.masks[state.frameCount]));
+    const index = state.frameCount / REPLAY_SNAPSHOT_INTERVAL;
+    if (index === pb.snapshots.length) pb.snapshots.push(structuredClone(state));
+    return events;
+  };
 
-      if (state.lastGeneratedX > (state.currentThemeIndex + 1) * THEME_CHANGE_DISTANCE) {
-          let nextIndex = Math.floor(Math.random() * THEMES.length);
-          if (nextIndex === state.currentThemeIndex) nextIndex = (nextIndex + 1) % THEMES.length;
-          state.currentThemeIndex = nextIndex;
-      }
+  // Runs are deterministic, so seeking restores the nearest earlier snapshot
+  // and silently fast-forwards from there.
+  const seekReplay = (frame: number) => {
+    const pb = playback.current;
+    const index = Math.min(Math.floor(frame / REPLAY_SNAPSHOT_INTERVAL), pb.snapshots.length - 1);
+    const state = structuredClone(pb.snapshots[index]);
+    replayGame.current = state;
+    while (state.frameCount < frame && !state.isOver) {
+      stepPlayback(state);
+    }
+    showHud(state);
   };
 
-  const updateEntities = (state: GameState) => {
-      state.entities.forEach(ent => {
-          if (!ent.active) return;
-          if (ent.type !== 'BLOCK' && ent.type !== 'MUSHROOM') { 
-             ent.x += ent.vx;
-             ent.frame += 0.1;
-          }
+  const exitPlayback = () => {
+    showHud(game.current);
+    setGameState(playback.current.returnTo);
+  };
 
-          if (checkCollision(state.player, ent)) {
-             handleCollision(state, ent);
-          }
-      });
+  const changePlaybackSpeed = (speed: number) => {
+    playbackSpeed.current = speed;
+    setReplaySpeed(speed);
+  };
 
-      state.entities = state.entities.filter(e => e.active && e.x > state.camera.x - 200);
-      state.decorations = state.decorations.filter(d => d.x > state.camera.x - 200);
+  const togglePlaybackPause = () => {
+    playback.current.paused = !playback.current.paused;
+    setReplayPaused(playback.current.paused);
   };
 
-  const checkCollision = (p: GameState['player'], ent: Entity) => {
-      const px = p.x + 5;
-      const pw = p.w - 10;
-      const py = p.y;
-      const ph = p.h;
-      
-      return (
-          px < ent.x + ent.w &&
-          px + pw > ent.x &&
-          py < ent.y + ent.h &&
-          py + ph > ent.y
-      );
-  };
-
-  const handleCollision = (state: GameState, ent: Entity) => {
-      const p = state.player;
-
-      if (ent.type === 'MUSHROOM') {
-          ent.active = false;
-          p.isBig = true;
-          p.w = PLAYER_W_BIG;
-          p.h = PLAYER_H_BIG;
-          p.y -= 20;
-          spawnParticles(state, ent.x, ent.y, '#FFD700', 10);
-          return;
-      }
+  const exportReplay = (replay: Replay) => {
+    downloadFile(`super-jump-bros-${replay.seed}.replay.json`, serializeReplay(replay));
+  };
 
-      if (ent.type === 'BLOCK') {
-          if (p.vy < 0 && p.y > ent.y) {
-              p.vy = 2; // Head bonk
-          }
-          return;
-      }
+  // The share code can be pasted into a bug report and loaded back from a text file
+  const copyShareCode = async (replay: Replay) => navigator.clipboard.writeText(replayToBase64(replay));
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      startPlayback(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
-      if (p.isInvulnerable) return;
-
-      const hitFromTop = (p.y + p.h) - ent.y < 35 && p.vy > 0;
-
-      if (hitFromTop && ent.type !== 'THWOMP' && ent.type !== 'CACTUS_MOVING') {
-          ent.active = false;
-          p.vy = BOUNCE_FORCE;
-          state.score += 50;
-          spawnParticles(state, ent.x, ent.y, '#fff', 5);
-      } else {
-          if (p.isBig) {
-              p.isBig = false;
-              p.isInvulnerable = true;
-              p.invulnerableTimer = 90;
-              p.w = PLAYER_W_SMALL;
-              p.h = PLAYER_H_SMALL;
-              p.y += 10;
-          } else {
-              gameOver();
-          }
-      }
+  // --- Level Editor ---
+  const openEditor = () => {
+    setEditorLevel(selectedLevel ? structuredClone(selectedLevel) : createBlankLevel());
+    editorCamX.current = 0;
+    setEditorError(null);
+    setGameState('EDITOR');
   };
 
-  const spawnParticles = (state: GameState, x: number, y: number, color: string, count: number) => {
-      for(let i=0; i<count; i++) {
-          state.particles.push({
-              x, y,
-              vx: (Math.random() - 0.5) * 10,
-              vy: (Math.random() - 0.5) * 10,
-              life: 20 + Math.random() * 20,
-              color
-          });
-      }
+  const exitEditor = () => {
+    setTestingLevel(false);
+    setSelectedLevel(null);
+    setGameState('START');
   };
 
-  const updateParticles = (state: GameState) => {
-      for (let i = state.particles.length - 1; i >= 0; i--) {
-          const p = state.particles[i];
-          p.x += p.vx;
-          p.y += p.vy;
-          p.life--;
-          if (p.life <= 0) state.particles.splice(i, 1);
-      }
+  const returnToEditor = () => {
+    setTestingLevel(false);
+    setGameState('EDITOR');
   };
 
-  const gameOver = () => {
-    setGameState('GAME_OVER');
-    const finalScore = game.current.score;
-    if (finalScore > game.current.highScore) {
-      game.current.highScore = finalScore;
-    }
+  // Plays the edited layout, starting at the editor's current view unless the
+  // level's own start marker is on screen.
+  const playFromHere = () => {
+    const camX = editorCamX.current;
+    const start = editorLevel.start?.x ?? 100;
+    const startInView = start >= camX && start < camX + CANVAS_WIDTH;
+    setSelectedLevel({ ...editorLevel, start: { x: startInView ? start : snapX(camX + 100) } });
+    setTestingLevel(true);
+    setGameState('PLAYING');
   };
 
-  const handleStart = () => {
-      if (gameState === 'START' || gameState === 'GAME_OVER') {
-          setGameState('PLAYING');
-      }
-      focusGame();
+  const toWorld = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width) + editorCamX.current,
+      y: (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height)
+    };
   };
 
-  // --- Drawing System ---
+  // Item under the cursor, or the grid cell a click would place into
+  const editorHoverBox = () => {
+    const hover = editorHover.current;
+    if (!hover) return null;
+    const level = editorLevelRef.current;
+    const tool = editorToolRef.current;
+    const hit = tool === 'GROUND' ? null : hitTest(level, hover.x, hover.y);
+    if (hit) return itemBox(level, hit);
+    const cellY = tool === 'GROUND' ? GROUND_Y : snapY(hover.y);
+    return { x: snapX(hover.x), y: cellY, w: TILE_SIZE, h: TILE_SIZE };
+  };
 
-  const draw = (ctx: CanvasRenderingContext2D, state: GameState) => {
-    const theme = THEMES[state.currentThemeIndex];
-    const camX = state.camera.x;
-    
-    // De-structure current camera
-    const { dx, dy } = CAMERA_MODES[cameraIndex];
-    const is3D = cameraIndex !== 0; // 0 is Flat 2D
-
-    // Sky
-    const gradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
-    gradient.addColorStop(0, theme.bg[0]);
-    gradient.addColorStop(1, theme.bg[1]);
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Clouds
-    ctx.save();
-    state.clouds.forEach(c => drawCloud(ctx, c.x, c.y, c.size, state.currentThemeIndex === 1, dx, dy));
-    ctx.restore();
-
-    ctx.save();
-    ctx.translate(-camX, 0);
-
-    // Decorations
-    state.decorations.forEach(d => {
-        if(d.x > camX - 100 && d.x < camX + CANVAS_WIDTH + 100) 
-            drawDecoration(ctx, d.x, d.y, d.type, dx, dy);
-    });
+  const handleEditorMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (gameState !== 'EDITOR') return;
+    const { x, y } = toWorld(e);
+    const hit = hitTest(editorLevel, x, y);
 
-    // Ground
-    const groundStart = Math.floor(camX / 50) * 50;
-    const groundEnd = groundStart + CANVAS_WIDTH + 100;
-    
-    // 3D Top Face of Ground (Only if looking down/up)
-    if (dy !== 0) {
-        ctx.fillStyle = "#5a9c20"; // Darker green
-        if (theme.name === 'UNDERGROUND') ctx.fillStyle = "#004d70";
-        if (theme.name === 'DESERT') ctx.fillStyle = "#c2a370";
-        if (theme.name === 'CASTLE') ctx.fillStyle = "#555";
-        
-        ctx.beginPath();
-        // Just extrude the top line of the ground
-        ctx.moveTo(groundStart, GROUND_Y);
-        ctx.lineTo(groundStart + dx, GROUND_Y + dy);
-        ctx.lineTo(groundEnd + dx, GROUND_Y + dy);
-        ctx.lineTo(groundEnd, GROUND_Y);
-        ctx.fill();
+    if (e.button === 2 || editorTool === 'ERASE') {
+      if (hit) setEditorLevel(level => removeItem(level, hit));
+      return;
     }
-
-    // Ground Front Face
-    ctx.fillStyle = theme.dirt;
-    ctx.fillRect(groundStart, GROUND_Y, CANVAS_WIDTH + 100, GROUND_HEIGHT);
-    ctx.fillStyle = theme.ground;
-    ctx.fillRect(groundStart, GROUND_Y, CANVAS_WIDTH + 100, 15);
-    
-    // Grid Details
-    ctx.fillStyle = "rgba(0,0,0,0.1)";
-    for (let x = groundStart; x < groundEnd; x+=50) {
-        ctx.fillRect(x, GROUND_Y + 15, 48, GROUND_HEIGHT);
+    if (e.button !== 0) return;
+
+    if (editorTool === 'GROUND') {
+      const paintGround = !hasGroundTile(editorLevel, x);
+      editorDrag.current = { paintGround };
+      setEditorLevel(level => setGroundTile(level, x, paintGround));
+    } else if (hit) {
+      editorDrag.current = { item: hit };
+    } else {
+      setEditorLevel(level => placeItem(level, editorTool, x, y));
     }
+  };
 
-    // Entities
-    state.entities.forEach(ent => {
-        if (!ent.active) return;
-        if (ent.type === 'BLOCK') {
-            drawBlock(ctx, ent.x, ent.y, ent.w, ent.h, theme.platform, dx, dy);
-        } else if (ent.type === 'MUSHROOM') {
-            drawMushroom(ctx, ent.x, ent.y, dx, dy);
-        } else {
-            drawEnemy(ctx, ent, theme, dx, dy);
-        }
-    });
-
-    // Particles
-    state.particles.forEach(p => {
-        ctx.fillStyle = p.color;
-        ctx.fillRect(p.x, p.y, 5, 5);
-    });
+  const handleEditorMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (gameState !== 'EDITOR') return;
+    const { x, y } = toWorld(e);
+    editorHover.current = { x, y };
 
-    // Player
-    if (state.player.invulnerableTimer % 4 < 2) {
-        drawPlayer(ctx, state.player, dx, dy);
+    const drag = editorDrag.current;
+    if (!drag) return;
+    if ('item' in drag) {
+      setEditorLevel(level => moveItem(level, drag.item, x, y));
+    } else {
+      setEditorLevel(level => setGroundTile(level, x, drag.paintGround));
     }
+  };
 
-    ctx.restore();
-  };
-
-  // --- 3D Helpers ---
-  const drawCube = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, color: string, dx: number, dy: number) => {
-      // 1. Draw Extrusions (Back/Sides)
-      ctx.fillStyle = "rgba(0,0,0,0.3)"; // Shadow color for sides
-      ctx.lineWidth = 1;
-      ctx.strokeStyle = "rgba(0,0,0,0.2)";
-
-      if (dx !== 0 || dy !== 0) {
-           // Side Face
-           ctx.beginPath();
-           if (dx > 0) { // Right face visible
-               ctx.moveTo(x + w, y);
-               ctx.lineTo(x + w + dx, y + dy);
-               ctx.lineTo(x + w + dx, y + h + dy);
-               ctx.lineTo(x + w, y + h);
-           } else { // Left face visible
-               ctx.moveTo(x, y);
-               ctx.lineTo(x + dx, y + dy);
-               ctx.lineTo(x + dx, y + h + dy);
-               ctx.lineTo(x, y + h);
-           }
-           ctx.fill();
-           ctx.stroke();
-
-           // Top/Bottom Face
-           ctx.fillStyle = "rgba(255,255,255,0.2)"; // Top highlight
-           ctx.beginPath();
-           if (dy < 0) { // Top face visible
-               ctx.moveTo(x, y);
-               ctx.lineTo(x + dx, y + dy);
-               ctx.lineTo(x + w + dx, y + dy);
-               ctx.lineTo(x + w, y);
-           } else { // Bottom face visible
-               ctx.moveTo(x, y + h);
-               ctx.lineTo(x + dx, y + h + dy);
-               ctx.lineTo(x + w + dx, y + h + dy);
-               ctx.lineTo(x + w, y + h);
-           }
-           ctx.fill();
-           ctx.stroke();
-      }
-      
-      // 2. Front Face
-      ctx.fillStyle = color;
-      ctx.fillRect(x, y, w, h);
-      ctx.strokeStyle = "rgba(0,0,0,0.4)";
-      ctx.strokeRect(x, y, w, h);
-  };
-
-  const drawBlock = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, color: string, dx: number, dy: number) => {
-      if (dx !== 0 || dy !== 0) {
-          drawCube(ctx, x, y, w, h, color, dx, dy);
-      } else {
-          ctx.fillStyle = color;
-          ctx.fillRect(x, y, w, h);
-          ctx.strokeStyle = '#000';
-          ctx.strokeRect(x, y, w, h);
-          ctx.fillStyle = "rgba(0,0,0,0.2)";
-          ctx.fillRect(x + 5, y + 5, w - 10, h - 10);
-      }
+  const handleEditorMouseUp = () => {
+    editorDrag.current = null;
   };
 
-  // --- Entity Drawers ---
+  const handleEditorDrop = (e: React.DragEvent<HTMLCanvasElement>) => {
+    if (gameState !== 'EDITOR') return;
+    e.preventDefault();
+    const { x, y } = toWorld(e);
+    if (editorTool === 'GROUND') setEditorLevel(level => setGroundTile(level, x, true));
+    else if (editorTool !== 'ERASE') setEditorLevel(level => placeItem(level, editorTool, x, y));
+  };
 
-  const drawPlayer = (ctx: CanvasRenderingContext2D, p: GameState['player'], dx: number, dy: number) => {
-      const { x, y, w, h, facingRight, runFrame, isBig } = p;
-      const isJumping = !p.isGrounded;
+  const saveEditorLevel = () => {
+    const slug = editorLevel.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'level';
+    downloadFile(`${slug}.level.json`, JSON.stringify(editorLevel, null, 2));
+  };
 
-      const drawSprite = (offsetX: number, offsetY: number, brightness: number) => {
-        ctx.save();
-        const cx = x + w/2 + offsetX;
-        const cy = y + h/2 + offsetY;
-        ctx.translate(cx, cy);
-        if (!facingRight) ctx.scale(-1, 1);
-        ctx.translate(-w/2, -h/2);
+  const importLevel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setEditorLevel(parseLevel(JSON.parse(await file.text())));
+      editorCamX.current = 0;
+      setEditorError(null);
+    } catch (err) {
+      setEditorError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
-        // Filter for "3D shadow"
-        if (brightness < 1) {
-            ctx.filter = `brightness(${brightness})`;
-        }
+  const importSkin = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = '';
+    if (files.length === 0) return;
+    const image = files.find(file => file.type.startsWith('image/'));
+    const frameMap = files.find(file => file.name.toLowerCase().endsWith('.json'));
+    if (!image || !frameMap) {
+      setSkinError('Select the sprite sheet image and its JSON frame map together');
+      return;
+    }
+    try {
+      const frames = parseSpriteFrames(await frameMap.text());
+      setSpriteSheet({ image: await createImageBitmap(image), frames });
+      setSkinLoaded(true);
+      setSkinError(null);
+    } catch (err) {
+      setSkinError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
-        const bob = isJumping ? 0 : Math.sin(runFrame) * 3;
-        
-        const shirt = "#D32F2F";
-        const overalls = "#1976D2";
-        const skin = "#FFCCB0";
-        const hatColor = "#D32F2F";
-
-        ctx.fillStyle = overalls;
-        if (isJumping) {
-            ctx.fillRect(5, h - 20, 10, 20);
-            ctx.fillRect(w - 15, h - 25, 10, 20);
-        } else {
-            const stride = Math.sin(runFrame) * 10;
-            ctx.fillRect(5 - stride, h - 20, 10, 20);
-            ctx.fillRect(w - 15 + stride, h - 20, 10, 20);
-        }
-        
-        ctx.fillStyle = shirt;
-        ctx.fillRect(2, h - 45 + bob, w - 4, 25);
-        
-        ctx.fillStyle = overalls;
-        ctx.fillRect(8, h - 35 + bob, w - 16, 15);
-        
-        ctx.fillStyle = skin;
-        const headSize = isBig ? 24 : 18;
-        ctx.beginPath();
-        ctx.arc(w/2, 15 + bob, headSize/2, 0, Math.PI*2);
-        ctx.fill();
-        
-        ctx.fillStyle = hatColor;
-        ctx.beginPath();
-        ctx.rect(w/2 - headSize/2 - 2, 5 + bob, headSize + 4, 5);
-        ctx.arc(w/2, 10 + bob, headSize/2, Math.PI, 0);
-        ctx.fill();
-        
-        ctx.fillStyle = "#000";
-        ctx.fillRect(w/2 + 2, 18 + bob, 8, 3);
-
-        ctx.restore();
-      };
-
-      if (dx !== 0 || dy !== 0) {
-          // Draw "thickness" layers
-          // Scale down the extrusion for characters so it's not as extreme as blocks
-          const ex = dx * 0.3;
-          const ey = dy * 0.3;
-          drawSprite(ex, ey, 0.5); // Shadow layer
-          drawSprite(ex * 0.5, ey * 0.5, 0.7); // Middle layer
-          drawSprite(0, 0, 1);    // Front layer
-      } else {
-          drawSprite(0, 0, 1);
-      }
+  const resetSkin = () => {
+    setSpriteSheet(null);
+    setSkinLoaded(false);
   };
 
-  const drawEnemy = (ctx: CanvasRenderingContext2D, ent: Entity, theme: any, dx: number, dy: number) => {
-     const drawSprite = (offsetX: number, offsetY: number, brightness: number) => {
-        ctx.save();
-        ctx.translate(offsetX, offsetY);
-        if (brightness < 1) ctx.filter = `brightness(${brightness})`;
-
-        if (ent.type.includes('GOOMBA')) {
-            ctx.fillStyle = ent.type === 'GOOMBA_BLUE' ? '#004466' : '#8B4513';
-            ctx.beginPath();
-            ctx.moveTo(ent.x, ent.y + ent.h);
-            ctx.lineTo(ent.x, ent.y + 10);
-            ctx.quadraticCurveTo(ent.x + ent.w/2, ent.y - 10, ent.x + ent.w, ent.y + 10);
-            ctx.lineTo(ent.x + ent.w, ent.y + ent.h);
-            ctx.fill();
-            ctx.fillStyle = '#fff';
-            ctx.fillRect(ent.x + 5, ent.y + 10, 8, 10);
-            ctx.fillRect(ent.x + 20, ent.y + 10, 8, 10);
-            ctx.fillStyle = '#000';
-            ctx.fillRect(ent.x + 7, ent.y + 12, 3, 5);
-            ctx.fillRect(ent.x + 22, ent.y + 12, 3, 5);
-        } else if (ent.type.includes('TURTLE')) {
-            ctx.fillStyle = ent.type === 'TURTLE_RED' ? '#D32F2F' : '#32CD32';
-            ctx.beginPath();
-            ctx.ellipse(ent.x + ent.w/2, ent.y + ent.h/2 + 5, ent.w/2, ent.h/3, 0, 0, Math.PI*2);
-            ctx.fill();
-            ctx.fillStyle = '#FFD700';
-            ctx.beginPath(); ctx.arc(ent.x + 5, ent.y + 10, 8, 0, Math.PI*2); ctx.fill();
-        } else if (ent.type === 'GHOST') {
-            ctx.fillStyle = 'rgba(255,255,255,0.9)';
-            ctx.beginPath(); ctx.arc(ent.x + ent.w/2, ent.y + ent.h/2, ent.w/2, 0, Math.PI*2); ctx.fill();
-            ctx.fillStyle = '#000';
-            ctx.fillText('boo', ent.x + 10, ent.y + 20);
-        } else if (ent.type === 'CACTUS_MOVING') {
-            ctx.fillStyle = '#228B22';
-            ctx.fillRect(ent.x + 10, ent.y, 30, ent.h);
-            ctx.fillRect(ent.x, ent.y + 20, 10, 10);
-            ctx.fillRect(ent.x + 40, ent.y + 10, 10, 10);
-        } else {
-            ctx.fillStyle = 'red';
-            ctx.fillRect(ent.x, ent.y, ent.w, ent.h);
-        }
-        ctx.restore();
-     }
-
-     if (dx !== 0 || dy !== 0) {
-         const ex = dx * 0.3;
-         const ey = dy * 0.3;
-         drawSprite(ex, ey, 0.5);
-         drawSprite(0, 0, 1);
-     } else {
-         drawSprite(0, 0, 1);
-     }
-  };
-
-  const drawMushroom = (ctx: CanvasRenderingContext2D, x: number, y: number, dx: number, dy: number) => {
-      const drawSprite = (ox: number, oy: number) => {
-          ctx.save();
-          ctx.translate(ox, oy);
-          ctx.fillStyle = '#fff';
-          ctx.fillRect(x + 5, y + 15, 20, 15);
-          ctx.fillStyle = '#E52521';
-          ctx.beginPath();
-          ctx.arc(x + 15, y + 15, 16, Math.PI, 0);
-          ctx.fill();
-          ctx.fillStyle = '#fff';
-          ctx.beginPath(); ctx.arc(x + 10, y + 8, 3, 0, Math.PI*2); ctx.fill();
-          ctx.beginPath(); ctx.arc(x + 20, y + 12, 3, 0, Math.PI*2); ctx.fill();
-          ctx.restore();
-      }
-      if (dx !== 0 || dy !== 0) {
-          const ex = dx * 0.3;
-          const ey = dy * 0.3;
-          ctx.filter = "brightness(0.5)";
-          drawSprite(ex, ey);
-          ctx.filter = "none";
-          drawSprite(0, 0);
-      } else {
-          drawSprite(0, 0);
-      }
+  const stopClick = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
   };
 
-  const drawDecoration = (ctx: CanvasRenderingContext2D, x: number, y: number, type: string, dx: number, dy: number) => {
-      const draw = (ox: number, oy: number) => {
-          ctx.save();
-          ctx.translate(ox, oy);
-          if (type === 'HILL') {
-              ctx.fillStyle = "rgba(46, 139, 87, 0.6)";
-              ctx.beginPath(); ctx.arc(x, y, 80, Math.PI, 0); ctx.fill();
-          } else if (type === 'PYRAMID') {
-              ctx.fillStyle = "rgba(210, 180, 140, 0.6)";
-              ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + 100, y); ctx.lineTo(x + 50, y - 80); ctx.fill();
-          } else if (type === 'CRYSTAL') {
-              ctx.fillStyle = "rgba(100, 200, 255, 0.3)";
-              ctx.beginPath(); ctx.moveTo(x, y); ctx.lineTo(x + 20, y - 40); ctx.lineTo(x + 40, y); ctx.lineTo(x + 20, y + 10); ctx.fill();
-          } else if (type === 'CHAIN') {
-              ctx.strokeStyle = '#555';
-              ctx.lineWidth = 4;
-              ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, y - 100); ctx.stroke();
-          }
-          ctx.restore();
+  const handleStart = () => {
+      if (gameState === 'GAME_OVER' && URL_SEED === null) {
+          setSeed(randomSeed());
       }
-      
-      if (dx !== 0 || dy !== 0) {
-          const ex = dx * 0.4;
-          const ey = dy * 0.4;
-          ctx.filter = "brightness(0.7)";
-          draw(ex, ey);
-          ctx.filter = "none";
-          draw(0,0);
-      } else {
-          draw(0,0);
+      if (gameState === 'START' || gameState === 'GAME_OVER' || gameState === 'LEVEL_CLEAR') {
+          setGameState('PLAYING');
       }
-  };
-
-  const drawCloud = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, dark: boolean, dx: number, dy: number) => {
-    ctx.fillStyle = dark ? "rgba(100,100,110,0.5)" : "rgba(255, 255, 255, 0.7)";
-    
-    const d = (ox: number, oy: number) => {
-        ctx.save();
-        ctx.translate(x + ox, y + oy);
-        ctx.scale(size, size);
-        ctx.beginPath();
-        ctx.arc(0, 0, 30, 0, Math.PI * 2);
-        ctx.arc(40, 0, 40, 0, Math.PI * 2);
-        ctx.arc(80, 0, 30, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.restore();
-    }
-
-    if(dx !== 0 || dy !== 0) {
-        ctx.fillStyle = "rgba(0,0,0,0.1)"; // Deep shadow
-        // Clouds are high up, so shadow is far
-        d(dx * 0.5, dy * 0.5 + 40);
-        ctx.fillStyle = dark ? "rgba(100,100,110,0.5)" : "rgba(255, 255, 255, 0.7)";
-        d(0,0);
-    } else {
-        d(0,0);
-    }
+      focusGame();
   };
 
   // Mobile Handlers
-  const handleTouchStart = (key: string) => (e: React.TouchEvent | React.MouseEvent) => {
+  const handleTouchStart = (action: Action) => (e: React.TouchEvent | React.MouseEvent) => {
       e.preventDefault();
-      if(key === 'Space') performJump();
-      else keys.current.add(key);
+      input.current.touch.add(action);
+      input.current.pressed.add(action);
   };
-  const handleTouchEnd = (key: string) => (e: React.TouchEvent | React.MouseEvent) => {
+  const handleTouchEnd = (action: Action) => (e: React.TouchEvent | React.MouseEvent) => {
       e.preventDefault();
-      keys.current.delete(key);
+      input.current.touch.delete(action);
+  };
+
+  const cycleCamera = (direction: number) => {
+      setCameraIndex(prev => (prev + direction + CAMERA_MODES.length) % CAMERA_MODES.length);
   };
 
   const nextCamera = (e: React.MouseEvent) => {
       e.stopPropagation();
-      setCameraIndex(prev => (prev + 1) % CAMERA_MODES.length);
+      cycleCamera(1);
   };
 
   const prevCamera = (e: React.MouseEvent) => {
       e.stopPropagation();
-      setCameraIndex(prev => (prev - 1 + CAMERA_MODES.length) % CAMERA_MODES.length);
+      cycleCamera(-1);
   };
 
   return (
@@ -933,6 +748,7 @@ function App() {
       ref={containerRef} 
       tabIndex={0} 
       onKeyDown={(e) => {
+          if (isTextEntry(e.target)) return;
           if(['ArrowUp','ArrowDown','ArrowLeft','ArrowRight',' '].includes(e.key)) {
               e.preventDefault();
           }
@@ -946,68 +762,216 @@ function App() {
             <span className="cam-label">{currentCamera.name}</span>
             <button className="cam-btn" onClick={nextCamera}>▶</button>
         </div>
+        <div className="camera-controls">
+            <span className="cam-label">EFFECTS</span>
+            <button
+              className="cam-btn"
+              title="Lighting, weather and day/night tint"
+              onClick={() => setEffectsQuality(quality => quality === 'HIGH' ? 'LOW' : 'HIGH')}
+            >{effectsQuality}</button>
+        </div>
+        <AudioControls settings={audioSettings} onChange={setAudioSettings} />
       </div>
       
+      <input
+        ref={importRef}
+        type="file"
+        accept=".json,application/json,text/plain"
+        style={{display: 'none'}}
+        onChange={importReplay}
+      />
+      <input
+        ref={levelImportRef}
+        type="file"
+        accept=".json,application/json"
+        style={{display: 'none'}}
+        onChange={importLevel}
+      />
+      <input
+        ref={skinImportRef}
+        type="file"
+        accept=".png,.json,image/png,application/json"
+        multiple
+        style={{display: 'none'}}
+        onChange={importSkin}
+      />
+
       <div className="canvas-wrapper">
         <canvas 
           ref={canvasRef} 
           width={CANVAS_WIDTH} 
           height={CANVAS_HEIGHT} 
+          className={gameState === 'EDITOR' ? 'editor-canvas' : undefined}
+          onMouseDown={handleEditorMouseDown}
+          onMouseMove={handleEditorMouseMove}
+          onMouseUp={handleEditorMouseUp}
+          onMouseLeave={() => { handleEditorMouseUp(); editorHover.current = null; }}
+          onContextMenu={(e) => { if (gameState === 'EDITOR') e.preventDefault(); }}
+          onWheel={(e) => { if (gameState === 'EDITOR') editorCamX.current += e.deltaY + e.deltaX; }}
+          onDragOver={(e) => { if (gameState === 'EDITOR') e.preventDefault(); }}
+          onDrop={handleEditorDrop}
         />
+
+        {testingLevel && gameState === 'PLAYING' && (
+            <button className="menu-btn editor-return" onClick={returnToEditor}>■ EDIT</button>
+        )}
         
         <div className="hud">
             <span style={{color: '#fff', fontSize: '1rem', marginRight:'auto'}}>WORLD: {currentThemeName}</span>
             <span>SCORE: {score.toString().padStart(5, '0')}</span>
+            <span>COINS: {coins.toString().padStart(2, '0')}</span>
+            <span>LIVES: {lives}</span>
             <span style={{color: '#ffd700'}}>HI: {game.current.highScore}</span>
         </div>
 
-        {gameState !== 'PLAYING' && (
+        {gameState === 'REPLAY' && playback.current && (
+            <ReplayControls
+              frames={playback.current.replay.frames}
+              speed={replaySpeed}
+              paused={replayPaused}
+              scrubberRef={scrubberRef}
+              onSeek={seekReplay}
+              onSpeedChange={changePlaybackSpeed}
+              onTogglePause={togglePlaybackPause}
+              onExport={() => exportReplay(playback.current.replay)}
+              onCopyCode={() => copyShareCode(playback.current.replay)}
+              onExit={exitPlayback}
+            />
+        )}
+
+        {gameState === 'PAUSED' && (
+            <div className="overlay" onClick={resumeGame}>
+                <div className="message">
+                    <p className="pause-text">PAUSED</p>
+                    <div className="overlay-actions">
+                        <button className="menu-btn" onClick={stopClick(resumeGame)}>RESUME</button>
+                        <button className="menu-btn" onClick={stopClick(() => setGameState('PLAYING'))}>RESTART</button>
+                        <button className="menu-btn" onClick={stopClick(() => setShowPauseSettings(prev => !prev))}>SETTINGS</button>
+                        <button className="menu-btn" onClick={stopClick(quitToTitle)}>{testingLevel ? 'BACK TO EDITOR' : 'QUIT TO TITLE'}</button>
+                    </div>
+                    {showPauseSettings && (
+                        <div className="pause-settings" onClick={(e) => e.stopPropagation()}>
+                            <AudioControls settings={audioSettings} onChange={setAudioSettings} />
+                            <ControlsSettings bindings={bindings} onChange={setBindings} />
+                        </div>
+                    )}
+                </div>
+            </div>
+        )}
+
+        {(gameState === 'START' || gameState === 'GAME_OVER' || gameState === 'LEVEL_CLEAR') && (
             <div className="overlay" onClick={handleStart}>
-                {gameState === 'START' ? (
+                {gameState === 'START' && (
                     <div className="message">
                         <p style={{fontSize: '1.2rem', fontWeight:'bold'}}>CLICK TO START</p>
-                        <p style={{fontSize: '0.8rem'}}>ARROWS to Move, SPACE to Jump</p>
+                        <p style={{fontSize: '0.8rem'}}>ARROWS to Move, SPACE to Jump (hold for height), SHIFT to Run, X to Throw Fire, ESC to Pause</p>
+                        <LevelSelect levels={BUILT_IN_LEVELS} selected={selectedLevel} onSelect={setSelectedLevel} />
+                        <p className="seed-label">SEED: {seed}</p>
+                        <div className="overlay-actions">
+                            <button className="menu-btn" onClick={stopClick(() => setShowLeaderboard(prev => !prev))}>HIGH SCORES</button>
+                            <button className="menu-btn" onClick={stopClick(() => setShowControls(prev => !prev))}>CONTROLS</button>
+                            <button className="menu-btn" onClick={stopClick(() => importRef.current?.click())}>LOAD REPLAY</button>
+                            <button className="menu-btn" onClick={stopClick(openEditor)}>LEVEL EDITOR</button>
+                            {skinLoaded
+                                ? <button className="menu-btn" onClick={stopClick(resetSkin)}>DEFAULT SKIN</button>
+                                : <button className="menu-btn" onClick={stopClick(() => skinImportRef.current?.click())}>LOAD SKIN</button>}
+                        </div>
+                        {replayError && <p className="error-text">{replayError}</p>}
+                        {skinError && <p className="error-text">{skinError}</p>}
+                        {showLeaderboard && <Leaderboard entries={leaderboard} onClear={resetLeaderboard} />}
+                        {showControls && <ControlsSettings bindings={bindings} onChange={setBindings} />}
                     </div>
-                ) : (
+                )}
+                {gameState === 'GAME_OVER' && (
                     <div className="message">
                         <p className="game-over-text">GAME OVER</p>
                         <p style={{fontSize: '1.5rem'}}>SCORE: {score}</p>
+                        <p className="seed-label">SEED: {game.current.seed}</p>
+                        {pendingEntry && qualifiesForLeaderboard(leaderboard, pendingEntry.score) && (
+                            <NameEntry initialName={loadPlayerName()} onSubmit={submitScore} />
+                        )}
+                        {savedEntry && <Leaderboard entries={leaderboard} highlight={savedEntry} />}
+                        <div className="overlay-actions">
+                            {lastReplay && <button className="menu-btn" onClick={stopClick(() => startPlayback(lastReplay))}>WATCH REPLAY</button>}
+                            {lastReplay && <button className="menu-btn" onClick={stopClick(() => exportReplay(lastReplay))}>SAVE REPLAY</button>}
+                            <button className="menu-btn" onClick={stopClick(() => importRef.current?.click())}>LOAD REPLAY</button>
+                            {testingLevel && <button className="menu-btn" onClick={stopClick(returnToEditor)}>BACK TO EDITOR</button>}
+                        </div>
+                        {replayError && <p className="error-text">{replayError}</p>}
                         <p className="blink">CLICK TO RETRY</p>
                     </div>
                 )}
+                {gameState === 'LEVEL_CLEAR' && clearResult && (
+                    <div className="message">
+                        <p className="clear-text">COURSE CLEAR!</p>
+                        <p style={{fontWeight: 'bold'}}>{clearResult.level}</p>
+                        <p style={{fontSize: '1.5rem'}}>TIME: {formatLevelTime(clearResult.frames)}</p>
+                        <p style={{fontSize: '1.5rem'}}>SCORE: {clearResult.score}</p>
+                        <div className="overlay-actions">
+                            {lastReplay && <button className="menu-btn" onClick={stopClick(() => startPlayback(lastReplay))}>WATCH REPLAY</button>}
+                            {lastReplay && <button className="menu-btn" onClick={stopClick(() => exportReplay(lastReplay))}>SAVE REPLAY</button>}
+                            {testingLevel
+                                ? <button className="menu-btn" onClick={stopClick(returnToEditor)}>BACK TO EDITOR</button>
+                                : <button className="menu-btn" onClick={stopClick(() => setGameState('START'))}>LEVEL SELECT</button>}
+                        </div>
+                        <p className="blink">CLICK TO PLAY AGAIN</p>
+                    </div>
+                )}
             </div>
         )}
       </div>
 
+      {gameState === 'EDITOR' && (
+          <EditorToolbar
+            level={editorLevel}
+            tool={editorTool}
+            error={editorError}
+            onToolChange={setEditorTool}
+            onLevelChange={(changes) => setEditorLevel(level => ({ ...level, ...changes }))}
+            onLengthChange={(length) => setEditorLevel(level => resizeLevel(level, length))}
+            onNew={() => { setEditorLevel(createBlankLevel(editorLevel.theme)); editorCamX.current = 0; }}
+            onSave={saveEditorLevel}
+            onLoad={() => levelImportRef.current?.click()}
+            onPlay={playFromHere}
+            onExit={exitEditor}
+          />
+      )}
+
       {/* On-screen controls for Touch/Mouse */}
       {gameState === 'PLAYING' && (
           <div className="mobile-controls">
               <div className="dpad">
                   <button 
-                    onMouseDown={handleTouchStart('ArrowLeft')} 
-                    onMouseUp={handleTouchEnd('ArrowLeft')} 
-                    onTouchStart={handleTouchStart('ArrowLeft')} 
-                    onTouchEnd={handleTouchEnd('ArrowLeft')}
+                    onMouseDown={handleTouchStart('left')} 
+                    onMouseUp={handleTouchEnd('left')} 
+                    onTouchStart={handleTouchStart('left')} 
+                    onTouchEnd={handleTouchEnd('left')}
                   >◀</button>
                   <button 
-                    onMouseDown={handleTouchStart('ArrowRight')} 
-                    onMouseUp={handleTouchEnd('ArrowRight')} 
-                    onTouchStart={handleTouchStart('ArrowRight')} 
-                    onTouchEnd={handleTouchEnd('ArrowRight')}
+                    onMouseDown={handleTouchStart('right')} 
+                    onMouseUp={handleTouchEnd('right')} 
+                    onTouchStart={handleTouchStart('right')} 
+                    onTouchEnd={handleTouchEnd('right')}
                   >▶</button>
               </div>
               <div className="action-btn">
                   <button 
-                    onMouseDown={handleTouchStart('Space')} 
-                    onMouseUp={handleTouchEnd('Space')}
-                    onTouchStart={handleTouchStart('Space')} 
-                    onTouchEnd={handleTouchEnd('Space')}
+                    onMouseDown={handleTouchStart('jump')} 
+                    onMouseUp={handleTouchEnd('jump')}
+                    onTouchStart={handleTouchStart('jump')} 
+                    onTouchEnd={handleTouchEnd('jump')}
                   >A</button>
+                  <button 
+                    onMouseDown={handleTouchStart('fire')} 
+                    onMouseUp={handleTouchEnd('fire')}
+                    onTouchStart={handleTouchStart('fire')} 
+                    onTouchEnd={handleTouchEnd('fire')}
+                  >B</button>
               </div>
           </div>
       )}
       
-      <p className="controls-hint" style={{display: 'none'}}>[ARROWS] Move • [SPACE] Jump</p>
+      <p className="controls-hint" style={{display: 'none'}}>[ARROWS] Move • [SPACE] Jump • [SHIFT] Run • [X] Fire</p>
     </div>
   );
 }
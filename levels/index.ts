@@ -0,0 +1,8 @@
+import { LevelData, parseLevel } from '../game/levels';
+import level1 from './1-1.json';
+import level2 from './1-2.json';
+import level3 from './1-3.json';
+import level4 from './1-4.json';
+
+// Built-in courses, in Level Select order.
+export const BUILT_IN_LEVELS: LevelData[] = [level1, level2, level3, level4].map(parseLevel);
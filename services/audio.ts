@@ -0,0 +1,291 @@
+import { SONGS, Song } from './songs';
+
+// --- Chiptune Audio ---
+// Everything is synthesized with Web Audio oscillators and a noise buffer; no
+// audio files. Browsers only start audio after a user gesture, so the context
+// is created lazily by unlockAudio() and every call before that is a no-op.
+// Volume settings persist in localStorage the same way the leaderboard does.
+
+export interface AudioSettings {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export type SoundEffect =
+  | 'jump' | 'stomp' | 'powerUp' | 'powerDown' | 'gameOver'
+  | 'coin' | 'lifeUp' | 'fireball' | 'bump' | 'levelClear';
+
+const SETTINGS_KEY = 'super-jump-bros.audio';
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.8, muted: false };
+
+const CROSSFADE_SECONDS = 1.2;
+// The scheduler wakes every TICK_MS and queues notes up to LOOKAHEAD seconds
+// ahead, so timer jitter never reaches the audio clock.
+const TICK_MS = 25;
+const LOOKAHEAD = 0.1;
+
+interface Part {
+  notes: (number | null)[];
+  // Steps each note lasts, counting the '-' holds after it
+  lengths: number[];
+}
+
+interface Track {
+  theme: string;
+  song: Song;
+  lead: Part;
+  bass: Part;
+  drums: string[];
+  gain: GainNode;
+  step: number;
+  nextTime: number;
+  timer: number;
+}
+
+let ctx: AudioContext | null = null;
+let masterGain: GainNode;
+let musicGain: GainNode;
+let sfxGain: GainNode;
+let noiseBuffer: AudioBuffer;
+let settings = DEFAULT_AUDIO_SETTINGS;
+let track: Track | null = null;
+// Theme requested before the context existed, started on unlock
+let pendingTheme: string | null = null;
+
+// --- Settings ---
+
+const clampVolume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') ?? {};
+    return {
+      master: clampVolume(parsed.master, DEFAULT_AUDIO_SETTINGS.master),
+      music: clampVolume(parsed.music, DEFAULT_AUDIO_SETTINGS.music),
+      sfx: clampVolume(parsed.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+      muted: parsed.muted === true
+    };
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+export const saveAudioSettings = (next: AudioSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  } catch {
+    // Settings still apply for this session
+  }
+};
+
+export const applyAudioSettings = (next: AudioSettings) => {
+  settings = next;
+  if (!ctx) return;
+  const now = ctx.currentTime;
+  masterGain.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.02);
+  musicGain.gain.setTargetAtTime(settings.music, now, 0.02);
+  sfxGain.gain.setTargetAtTime(settings.sfx, now, 0.02);
+};
+
+// --- Context ---
+
+// Older Safari only ships the prefixed constructor
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+export const unlockAudio = () => {
+  if (!ctx) {
+    const AudioCtor = window.AudioContext ?? window.webkitAudioContext;
+    if (!AudioCtor) return;
+    ctx = new AudioCtor();
+    masterGain = ctx.createGain();
+    masterGain.connect(ctx.destination);
+    musicGain = ctx.createGain();
+    musicGain.connect(masterGain);
+    sfxGain = ctx.createGain();
+    sfxGain.connect(masterGain);
+
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+    applyAudioSettings(settings);
+  }
+  if (ctx.state === 'suspended') ctx.resume();
+  if (pendingTheme) {
+    const theme = pendingTheme;
+    pendingTheme = null;
+    playMusic(theme);
+  }
+};
+
+// --- Synthesis ---
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "A#4" -> MIDI note number
+const parseNote = (name: string) => {
+  const match = /^([A-G])(#?)(-?\d)$/.exec(name);
+  if (!match) throw new Error(`Bad note "${name}"`);
+  return NOTE_OFFSETS[match[1]] + (match[2] ? 1 : 0) + (Number(match[3]) + 1) * 12;
+};
+
+const frequency = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+const parsePart = (pattern: string): Part => {
+  const tokens = pattern.trim().split(/\s+/);
+  const notes = tokens.map(token => token === '.' || token === '-' ? null : parseNote(token));
+  const lengths = tokens.map((_, i) => {
+    let length = 1;
+    while (tokens[i + length] === '-') length++;
+    return length;
+  });
+  return { notes, lengths };
+};
+
+const tone = (
+  dest: AudioNode, type: OscillatorType, freq: number,
+  start: number, duration: number, volume: number, slideTo?: number
+) => {
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, start);
+  if (slideTo) osc.frequency.exponentialRampToValueAtTime(slideTo, start + duration);
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(volume, start);
+  env.gain.setValueAtTime(volume, start + duration * 0.7);
+  env.gain.linearRampToValueAtTime(0, start + duration);
+  osc.connect(env).connect(dest);
+  osc.start(start);
+  osc.stop(start + duration);
+};
+
+const noise = (
+  dest: AudioNode, start: number, duration: number, volume: number,
+  filter: BiquadFilterType, cutoff: number
+) => {
+  const src = ctx.createBufferSource();
+  src.buffer = noiseBuffer;
+  const shape = ctx.createBiquadFilter();
+  shape.type = filter;
+  shape.frequency.value = cutoff;
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(volume, start);
+  env.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  src.connect(shape).connect(env).connect(dest);
+  src.start(start);
+  src.stop(start + duration);
+};
+
+const DRUMS: Record<string, (dest: AudioNode, t: number) => void> = {
+  k: (dest, t) => tone(dest, 'triangle', 150, t, 0.12, 0.6, 40),
+  s: (dest, t) => noise(dest, t, 0.12, 0.3, 'bandpass', 1800),
+  h: (dest, t) => noise(dest, t, 0.04, 0.12, 'highpass', 7000)
+};
+
+// --- Music ---
+
+const stepSeconds = (song: Song) => 60 / song.tempo / 4;
+
+const scheduleStep = (t: Track, time: number) => {
+  const duration = stepSeconds(t.song);
+  const leadIndex = t.step % t.lead.notes.length;
+  const lead = t.lead.notes[leadIndex];
+  if (lead !== null) tone(t.gain, 'square', frequency(lead), time, duration * t.lead.lengths[leadIndex] * 0.95, 0.12);
+  const bassIndex = t.step % t.bass.notes.length;
+  const bass = t.bass.notes[bassIndex];
+  if (bass !== null) tone(t.gain, 'triangle', frequency(bass), time, duration * t.bass.lengths[bassIndex] * 0.95, 0.3);
+  DRUMS[t.drums[t.step % t.drums.length]]?.(t.gain, time);
+};
+
+const fadeOut = (t: Track, seconds: number) => {
+  const now = ctx.currentTime;
+  t.gain.gain.cancelScheduledValues(now);
+  t.gain.gain.setValueAtTime(t.gain.gain.value, now);
+  t.gain.gain.linearRampToValueAtTime(0, now + seconds);
+  setTimeout(() => {
+    clearInterval(t.timer);
+    t.gain.disconnect();
+  }, (seconds + LOOKAHEAD) * 1000);
+};
+
+// Starts the theme's loop, crossfading from whatever is playing.
+export const playMusic = (theme: string) => {
+  if (!ctx) {
+    pendingTheme = theme;
+    return;
+  }
+  if (track?.theme === theme) return;
+  const song = SONGS[theme];
+  if (track) fadeOut(track, CROSSFADE_SECONDS);
+  track = null;
+  if (!song) return;
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, ctx.currentTime);
+  gain.gain.linearRampToValueAtTime(1, ctx.currentTime + CROSSFADE_SECONDS);
+  gain.connect(musicGain);
+
+  const next: Track = {
+    theme, song, gain,
+    lead: parsePart(song.lead),
+    bass: parsePart(song.bass),
+    drums: song.drums.trim().split(/\s+/),
+    step: 0,
+    nextTime: ctx.currentTime + 0.05,
+    timer: 0
+  };
+  next.timer = window.setInterval(() => {
+    while (next.nextTime < ctx.currentTime + LOOKAHEAD) {
+      scheduleStep(next, next.nextTime);
+      next.nextTime += stepSeconds(song);
+      next.step++;
+    }
+  }, TICK_MS);
+  track = next;
+};
+
+export const stopMusic = (seconds = 0.3) => {
+  pendingTheme = null;
+  if (!ctx || !track) return;
+  fadeOut(track, seconds);
+  track = null;
+};
+
+// --- Sound Effects ---
+
+// Plays `notes` one after another, each `length` seconds long.
+const arpeggio = (type: OscillatorType, notes: string[], length: number, volume: number) => {
+  const t = ctx.currentTime;
+  notes.forEach((note, i) => tone(sfxGain, type, frequency(parseNote(note)), t + i * length, length, volume));
+};
+
+const SFX: Record<SoundEffect, () => void> = {
+  jump: () => tone(sfxGain, 'square', 260, ctx.currentTime, 0.18, 0.15, 620),
+  stomp: () => {
+    tone(sfxGain, 'square', 420, ctx.currentTime, 0.1, 0.18, 90);
+    noise(sfxGain, ctx.currentTime, 0.08, 0.2, 'lowpass', 1200);
+  },
+  powerUp: () => arpeggio('square', ['C5', 'E5', 'G5', 'C6', 'E6', 'G6'], 0.06, 0.14),
+  powerDown: () => arpeggio('square', ['G5', 'D5', 'G4', 'D4', 'G3'], 0.08, 0.14),
+  gameOver: () => arpeggio('triangle', ['C5', 'G4', 'E4', 'A4', 'B4', 'A4', 'G#4', 'A#4', 'G#4', 'G4'], 0.18, 0.35),
+  coin: () => {
+    tone(sfxGain, 'square', frequency(parseNote('B5')), ctx.currentTime, 0.07, 0.12);
+    tone(sfxGain, 'square', frequency(parseNote('E6')), ctx.currentTime + 0.07, 0.3, 0.12);
+  },
+  lifeUp: () => arpeggio('square', ['E6', 'G6', 'E7', 'C7', 'D7', 'G7'], 0.08, 0.12),
+  fireball: () => tone(sfxGain, 'square', 900, ctx.currentTime, 0.08, 0.1, 250),
+  bump: () => tone(sfxGain, 'triangle', 160, ctx.currentTime, 0.1, 0.4, 70),
+  levelClear: () => arpeggio('square', ['G4', 'C5', 'E5', 'G5', 'C6', 'E6', 'G6', 'E6'], 0.1, 0.14)
+};
+
+export const playSfx = (effect: SoundEffect) => {
+  if (!ctx || ctx.state !== 'running') return;
+  SFX[effect]();
+};
@@ -0,0 +1,23 @@
+import { CAMERA_MODES } from '../game/constants';
+
+// --- Camera Preference ---
+// The last chosen camera mode is remembered by name, so reordering
+// CAMERA_MODES never silently switches anyone's view.
+
+const CAMERA_KEY = 'super-jump-bros.camera';
+
+export const loadCameraIndex = () => {
+  try {
+    return Math.max(0, CAMERA_MODES.findIndex(mode => mode.name === localStorage.getItem(CAMERA_KEY)));
+  } catch {
+    return 0;
+  }
+};
+
+export const saveCameraIndex = (index: number) => {
+  try {
+    localStorage.setItem(CAMERA_KEY, CAMERA_MODES[index].name);
+  } catch {
+    // Falls back to the flat view next session
+  }
+};
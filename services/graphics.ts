@@ -0,0 +1,27 @@
+import { EffectsQuality } from '../game/render';
+
+// --- Effects Quality ---
+// Lighting, weather and the day/night tint can be switched off on slow
+// devices. Only the renderer reads it, so runs play out the same either way.
+
+const QUALITY_KEY = 'super-jump-bros.effects';
+
+// Machines with very few cores start with effects off
+const defaultQuality = (): EffectsQuality => (navigator.hardwareConcurrency ?? 4) <= 2 ? 'LOW' : 'HIGH';
+
+export const loadEffectsQuality = (): EffectsQuality => {
+  try {
+    const saved = localStorage.getItem(QUALITY_KEY);
+    return saved === 'HIGH' || saved === 'LOW' ? saved : defaultQuality();
+  } catch {
+    return defaultQuality();
+  }
+};
+
+export const saveEffectsQuality = (quality: EffectsQuality) => {
+  try {
+    localStorage.setItem(QUALITY_KEY, quality);
+  } catch {
+    // Applies for this session only
+  }
+};
@@ -0,0 +1,155 @@
+// --- Input Mapping ---
+// The game reads logical actions, never raw keys. Keyboard codes are
+// rebindable and persisted in localStorage; gamepads use the standard
+// mapping (D-pad, left stick, face buttons) and on-screen touch buttons hold
+// actions directly.
+
+export type Action = 'left' | 'right' | 'jump' | 'run' | 'fire' | 'pause' | 'camera';
+
+export const ACTIONS: { action: Action; label: string }[] = [
+  { action: 'left', label: 'LEFT' },
+  { action: 'right', label: 'RIGHT' },
+  { action: 'jump', label: 'JUMP' },
+  { action: 'run', label: 'RUN' },
+  { action: 'fire', label: 'FIRE' },
+  { action: 'pause', label: 'PAUSE' },
+  { action: 'camera', label: 'CAMERA' },
+];
+
+// Keyboard codes (KeyboardEvent.code) bound to each action
+export type KeyBindings = Record<Action, string[]>;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  left: ['ArrowLeft', 'KeyA'],
+  right: ['ArrowRight', 'KeyD'],
+  jump: ['Space', 'ArrowUp', 'KeyW'],
+  run: ['ShiftLeft', 'KeyZ'],
+  fire: ['KeyX', 'KeyF'],
+  pause: ['Escape', 'KeyP'],
+  camera: ['KeyC'],
+};
+
+const BINDINGS_KEY = 'super-jump-bros.bindings';
+
+// Standard gamepad layout: 0 = bottom face button, 1 = right, 2 = left,
+// 3 = top, 9 = start, 14/15 = D-pad left/right.
+const GAMEPAD_BUTTONS: Record<Action, number[]> = {
+  left: [14],
+  right: [15],
+  jump: [0],
+  run: [2],
+  fire: [1],
+  pause: [9],
+  camera: [3],
+};
+const STICK_DEADZONE = 0.35;
+
+export interface InputState {
+  // Keyboard codes currently down
+  keys: Set<string>;
+  // Actions held on on-screen buttons and on any gamepad as of the last poll
+  touch: Set<Action>;
+  gamepad: Set<Action>;
+  // Presses since the last frame input was read; jump and fire are edges
+  pressed: Set<Action>;
+}
+
+export const createInputState = (): InputState => ({
+  keys: new Set(),
+  touch: new Set(),
+  gamepad: new Set(),
+  pressed: new Set(),
+});
+
+// --- Bindings ---
+
+const isAction = (value: string): value is Action => ACTIONS.some(a => a.action === value);
+
+export const loadBindings = (): KeyBindings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(BINDINGS_KEY) ?? '{}') ?? {};
+    const bindings = { ...DEFAULT_BINDINGS };
+    Object.keys(parsed).forEach(action => {
+      const codes = parsed[action];
+      if (isAction(action) && Array.isArray(codes) && codes.every(code => typeof code === 'string')) {
+        bindings[action] = codes;
+      }
+    });
+    return bindings;
+  } catch {
+    return { ...DEFAULT_BINDINGS };
+  }
+};
+
+export const saveBindings = (bindings: KeyBindings) => {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch {
+    // Bindings still apply for this session
+  }
+};
+
+// Binds `code` to `action`, taking it away from any other action first.
+export const bindKey = (bindings: KeyBindings, action: Action, code: string): KeyBindings => {
+  const next = { ...bindings };
+  ACTIONS.forEach(({ action: other }) => {
+    next[other] = next[other].filter(c => c !== code);
+  });
+  next[action] = [...next[action], code];
+  return next;
+};
+
+export const unbindKey = (bindings: KeyBindings, action: Action, code: string): KeyBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter(c => c !== code)
+});
+
+export const actionsForKey = (bindings: KeyBindings, code: string) =>
+  ACTIONS.map(a => a.action).filter(action => bindings[action].includes(code));
+
+// "KeyX" -> "X", "ArrowLeft" -> "←", for display in the settings panel
+export const keyLabel = (code: string) => {
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  if (arrows[code]) return arrows[code];
+  return code.replace(/^Key/, '').replace(/^Digit/, '').replace(/(Left|Right)$/, ' $1').toUpperCase();
+};
+
+// --- Reading ---
+
+export const isHeld = (input: InputState, bindings: KeyBindings, action: Action) =>
+  input.touch.has(action) || input.gamepad.has(action) || bindings[action].some(code => input.keys.has(code));
+
+// Samples every connected gamepad; a button going down counts as a press.
+export const pollGamepads = (input: InputState) => {
+  const held = new Set<Action>();
+  const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+  for (const pad of pads) {
+    if (!pad) continue;
+    ACTIONS.forEach(({ action }) => {
+      if (GAMEPAD_BUTTONS[action].some(i => pad.buttons[i]?.pressed)) held.add(action);
+    });
+    const stickX = pad.axes[0] ?? 0;
+    if (stickX < -STICK_DEADZONE) held.add('left');
+    if (stickX > STICK_DEADZONE) held.add('right');
+  }
+  held.forEach(action => {
+    if (!input.gamepad.has(action)) input.pressed.add(action);
+  });
+  input.gamepad = held;
+};
+
+// Forgets every held key, touch and pending press, e.g. when the game pauses
+// and the matching key-up events may never arrive. Gamepad buttons still down
+// stay recorded so they don't count as fresh presses afterwards.
+export const releaseAll = (input: InputState) => {
+  input.keys.clear();
+  input.touch.clear();
+  input.pressed.clear();
+};
+
+// Returns whether `action` was pressed since the last call and clears it.
+export const consumePress = (input: InputState, action: Action) => {
+  const pressed = input.pressed.has(action);
+  input.pressed.delete(action);
+  return pressed;
+};
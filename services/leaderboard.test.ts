@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LEADERBOARD_SIZE, LeaderboardEntry, addLeaderboardEntry, clearLeaderboard, loadLeaderboard } from './leaderboard';
+
+const STORAGE_KEY = 'super-jump-bros.leaderboard';
+
+const entry = (score: number, overrides: Partial<LeaderboardEntry> = {}): LeaderboardEntry => ({
+  name: 'MARIO',
+  score,
+  date: `2024-01-01T00:00:${String(score % 60).padStart(2, '0')}.000Z`,
+  distance: score / 10,
+  enemiesStomped: 3,
+  theme: 'OVERWORLD',
+  camera: 'Flat',
+  seed: 42,
+  ...overrides
+});
+
+// Just enough of localStorage for the service
+const fakeStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+describe('leaderboard', () => {
+  let storage: ReturnType<typeof fakeStorage>;
+
+  beforeEach(() => {
+    storage = fakeStorage();
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips saved entries, best first', () => {
+    let board = addLeaderboardEntry([], entry(100));
+    board = addLeaderboardEntry(board, entry(300));
+    board = addLeaderboardEntry(board, entry(200));
+    expect(loadLeaderboard()).toEqual([entry(300), entry(200), entry(100)]);
+    expect(loadLeaderboard()).toEqual(board);
+  });
+
+  it(`keeps only the top ${LEADERBOARD_SIZE}`, () => {
+    let board: LeaderboardEntry[] = [];
+    for (let score = 1; score <= LEADERBOARD_SIZE + 5; score++) board = addLeaderboardEntry(board, entry(score));
+    const loaded = loadLeaderboard();
+    expect(loaded).toHaveLength(LEADERBOARD_SIZE);
+    expect(loaded[loaded.length - 1].score).toBe(6);
+  });
+
+  it('rejects entries with a missing or mistyped field', () => {
+    const { seed: _, ...withoutSeed } = entry(50);
+    storage.setItem(STORAGE_KEY, JSON.stringify([
+      entry(400),
+      withoutSeed,
+      entry(300, { distance: '12' as unknown as number }),
+      entry(200, { theme: null }),
+      { ...entry(100), score: Infinity },
+      null,
+      'MARIO'
+    ]));
+    expect(loadLeaderboard()).toEqual([entry(400)]);
+  });
+
+  it('copies out only the known fields', () => {
+    storage.setItem(STORAGE_KEY, JSON.stringify([{ ...entry(100), extra: true }]));
+    expect(loadLeaderboard()).toEqual([entry(100)]);
+  });
+
+  it('treats unreadable storage as an empty board', () => {
+    storage.setItem(STORAGE_KEY, '{not json');
+    expect(loadLeaderboard()).toEqual([]);
+    vi.stubGlobal('localStorage', { getItem: () => { throw new Error('denied'); }, setItem: () => { throw new Error('denied'); } });
+    expect(loadLeaderboard()).toEqual([]);
+    expect(addLeaderboardEntry([], entry(10))).toEqual([entry(10)]);
+  });
+
+  it('clears the saved board', () => {
+    addLeaderboardEntry([], entry(100));
+    expect(clearLeaderboard()).toEqual([]);
+    expect(loadLeaderboard()).toEqual([]);
+  });
+});
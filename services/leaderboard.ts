@@ -0,0 +1,87 @@
+// --- Persistent Leaderboard ---
+// Top scores survive reloads in localStorage. Storage can be unavailable
+// (private mode, quota, sandboxed iframe), so every access degrades to an
+// in-memory board instead of throwing into the game loop.
+
+export const LEADERBOARD_SIZE = 10;
+const STORAGE_KEY = 'super-jump-bros.leaderboard';
+const NAME_KEY = 'super-jump-bros.player-name';
+export const MAX_NAME_LENGTH = 12;
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  date: string;
+  distance: number;
+  enemiesStomped: number;
+  theme: string;
+  camera: string;
+  seed: number;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Copies out a stored entry, or null if any field is missing or mistyped.
+const toEntry = (value: unknown): LeaderboardEntry | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, score, date, distance, enemiesStomped, theme, camera, seed } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof date !== 'string' || typeof theme !== 'string' || typeof camera !== 'string' ||
+      !isNumber(score) || !isNumber(distance) || !isNumber(enemiesStomped) || !isNumber(seed)) {
+    return null;
+  }
+  return { name, score, date, distance, enemiesStomped, theme, camera, seed };
+};
+
+const sortEntries = (entries: LeaderboardEntry[]) =>
+  [...entries].sort((a, b) => b.score - a.score || a.date.localeCompare(b.date));
+
+export const loadLeaderboard = (): LeaderboardEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    const entries = parsed.map(toEntry).filter((entry): entry is LeaderboardEntry => entry !== null);
+    return sortEntries(entries).slice(0, LEADERBOARD_SIZE);
+  } catch {
+    return [];
+  }
+};
+
+const saveLeaderboard = (entries: LeaderboardEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Board still works for this session
+  }
+};
+
+export const qualifiesForLeaderboard = (entries: LeaderboardEntry[], score: number) =>
+  score > 0 && (entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score);
+
+// Returns the new board; the caller keeps it as React state.
+export const addLeaderboardEntry = (entries: LeaderboardEntry[], entry: LeaderboardEntry) => {
+  const next = sortEntries([...entries, entry]).slice(0, LEADERBOARD_SIZE);
+  saveLeaderboard(next);
+  return next;
+};
+
+export const clearLeaderboard = (): LeaderboardEntry[] => {
+  saveLeaderboard([]);
+  return [];
+};
+
+export const loadPlayerName = () => {
+  try {
+    return localStorage.getItem(NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const savePlayerName = (name: string) => {
+  try {
+    localStorage.setItem(NAME_KEY, name);
+  } catch {
+    // Not worth surfacing
+  }
+};
@@ -0,0 +1,66 @@
+// --- Chiptune Songs ---
+// One looping song per theme. Parts are step patterns: every token is a
+// sixteenth note, '-' holds the previous note and '.' is a rest. Drum tokens
+// are k (kick), s (snare) and h (hi-hat). Parts loop independently, so a
+// short drum bar can run under a longer melody.
+
+export interface Song {
+  // Beats per minute; a beat is four steps
+  tempo: number;
+  lead: string;
+  bass: string;
+  drums: string;
+}
+
+export const SONGS: Record<string, Song> = {
+  OVERWORLD: {
+    tempo: 150,
+    lead:
+      'E5 E5 . E5 . C5 E5 . G5 - - - G4 - - - ' +
+      'C5 - . G4 - . E4 - . A4 . B4 . A#4 A4 . ' +
+      'G4 - E5 - G5 - A5 - F5 G5 . E5 . C5 D5 B4 ' +
+      'C5 - . G4 - . E4 - . A4 . B4 . A#4 A4 . ',
+    bass:
+      'D3 D3 . D3 . D3 D3 . G3 - - - G2 - - - ' +
+      'G3 - . E3 - . C3 - . F3 . G3 . F#3 F3 . ' +
+      'E3 - C4 - E4 - F4 - D4 E4 . C4 . A3 B3 G3 ' +
+      'G3 - . E3 - . C3 - . F3 . G3 . F#3 F3 . ',
+    drums: 'k . h . s . h . k . h k s . h . '
+  },
+  UNDERGROUND: {
+    tempo: 120,
+    lead:
+      'C4 . C5 . A3 . A4 . A#3 . A#4 . . . . . ' +
+      'C4 . C5 . A3 . A4 . A#3 . A#4 . . . . . ' +
+      'F3 . F4 . D3 . D4 . D#3 . D#4 . . . . . ' +
+      'F3 . F4 . D3 . D4 . D#3 . D#4 . . . D#4 D4 ',
+    bass:
+      'C2 - - - . . . . A#1 - - - . . . . ' +
+      'F1 - - - . . . . D#1 - - - . . . . ',
+    drums: 'k . . . h . . . k . . . h . . h '
+  },
+  DESERT: {
+    tempo: 132,
+    lead:
+      'E5 - F5 - G#5 - - - F5 E5 F5 - E5 - D5 - ' +
+      'E5 - - - . . B4 C5 D5 - C5 B4 A4 - - - ' +
+      'A4 - B4 - C5 - D5 - E5 - F5 - E5 - D5 - ' +
+      'C5 B4 A4 - G#4 - - - A4 - - - . . . . ',
+    bass:
+      'A2 . E3 . A2 . E3 . A2 . F3 . E3 . F3 . ' +
+      'A2 . E3 . A2 . E3 . G#2 . E3 . G#2 . E3 . ',
+    drums: 'k . h h s . h . k k h . s . h h '
+  },
+  CASTLE: {
+    tempo: 100,
+    lead:
+      'A4 - - - C5 - - - D#5 - - - F#5 - - - ' +
+      'F5 - E5 - D#5 - D5 - C#5 - - - . . . . ' +
+      'A4 - - - C5 - - - D#5 - - - A5 - - - ' +
+      'G#5 - G5 - F#5 - F5 - E5 - - - . . . . ',
+    bass:
+      'A1 . A1 . A1 . A1 . A1 . A1 . A1 . A1 . ' +
+      'A#1 . A#1 . A#1 . A#1 . G#1 . G#1 . G#1 . G#1 . ',
+    drums: 'k . . . . . . . s . . . . . k . '
+  }
+};